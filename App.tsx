@@ -1,68 +1,222 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Wifi, Cpu, AlertTriangle, ExternalLink, ShieldAlert, Network, Zap, Video, Settings, CloudLightning } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Wifi, Cpu, AlertTriangle, ExternalLink, ShieldAlert, Network, Zap, Video, Settings, CloudLightning, RotateCcw, Usb, Bluetooth } from 'lucide-react';
 import { VideoFeed } from './components/VideoFeed';
 import { Controls } from './components/Controls';
 import { MobileControls } from './components/MobileControls';
 import { Terminal } from './components/Terminal';
-import { AppConfig, ConnectionState, RobotCommand, LogEntry } from './types';
+import { Telemetry } from './components/Telemetry';
+import { VoicePanel } from './components/VoicePanel';
+import { ScenePanel } from './components/ScenePanel';
+import { OutboxPanel } from './components/OutboxPanel';
+import { LinkTraffic } from './components/LinkTraffic';
+import { LinkQuality } from './components/LinkQuality';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { ProfileEditor } from './components/ProfileEditor';
+import { FleetGrid } from './components/FleetGrid';
+import { TargetSelector } from './components/TargetSelector';
+import { SimulatorView } from './components/SimulatorView';
+import { DriverHud } from './components/DriverHud';
+import { HudSettings as HudSettingsPanel } from './components/HudSettings';
+import { RecorderPanel } from './components/RecorderPanel';
+import { ReplayPlayer } from './components/ReplayPlayer';
+import { MacroPanel } from './components/MacroPanel';
+import { MissionPlanner } from './components/MissionPlanner';
+import { GeminiLiveService, analyzeScene } from './services/geminiService';
+import { captureFrame, FrameSource } from './services/frameCapture';
+import { FrameGrabber, FrameGrabberStats } from './services/frameGrabber';
+import { TimedMotionExecutor } from './services/timedMotion';
+import { checkServoInterlock } from './services/servoInterlock';
+import { DEFAULT_LATENCY_THRESHOLDS, linkLevel } from './services/linkQuality';
+import { appendSample } from './services/telemetry';
+import { RobotLink, STOP_COMMAND } from './services/robotLink';
+import { DEFAULT_SERIAL_BAUD, SERIAL_BAUD_RATES } from './services/serialTransport';
+import { TRANSPORT_LABELS } from './services/transport';
+import { defaultHudSettings } from './services/hud';
+import { RecorderStats, SessionRecorder, SessionRecording, exportSession, sessionFileName } from './services/sessionRecorder';
+import { MjpegStream } from './services/mjpegStream';
+import { loadSessionBundle, SegmentReplay, TimedCommand } from './services/sessionReplay';
+import { MACROS_STORAGE_KEY, MacroPlayer, MacroRecorder, loadMacros } from './services/macros';
+import { MISSIONS_STORAGE_KEY, MissionRunner, exportMission, loadMissions, missionFileName, parseMission } from './services/missions';
+import { SIMULATOR_SCHEME, hasSimulatorView, isSimulatorAddress } from './services/simulator';
+import { PROFILES_STORAGE_KEY, loadFleet, createProfile, duplicateProfile, uniqueName } from './services/profiles';
+import { AppConfig, TransportKind, FleetState, RobotProfile, RobotLinkView, ControlTarget, ConnectionState, RobotCommand, CommandAck, LatencyThresholds, LogEntry, SceneAnalysis, VisionSettings, HudSettings, Macro, MacroPlayback, Mission, MissionRun } from './types';
 
 const DEFAULT_CONFIG: AppConfig = {
+    transport: 'websocket',
     robotIp: '192.168.4.1',
     robotPort: 8081,
+    serialBaud: DEFAULT_SERIAL_BAUD,
     cameraUrl: 'http://10.219.22.3:8081/video', 
     cameraUser: '', 
     cameraPwd: ''
 };
 
-const STORAGE_KEY = 'rover_cmd_config_v2';
-const IFRAME_MODE_KEY = 'rover_cmd_iframe_mode';
+const SCENE_HISTORY_LIMIT = 8;
+
+// Things that drive rovers on their own once started
+type ExecutorKind = 'timed' | 'macro' | 'mission' | 'replay';
+
+const BINARY_MOTOR_KEY = 'rover_cmd_binary_motor_v1';
+const LATENCY_THRESHOLDS_KEY = 'rover_cmd_latency_thresholds_v1';
+const HUD_SETTINGS_KEY = 'rover_cmd_hud_v1';
+
+const EMPTY_VIEW: RobotLinkView = {
+    state: ConnectionState.DISCONNECTED,
+    logs: [],
+    status: null,
+    history: [],
+    quality: null,
+    traffic: null,
+    watchdogTrip: null,
+    servos: { head: false, top: false, skirt: false },
+    outboxDepth: 0
+};
+
+const makeLogEntry = (source: LogEntry['source'], message: string, type: LogEntry['type'], seq: number | null = null): LogEntry => ({
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp: new Date(),
+    source,
+    message,
+    type,
+    // Sequenced commands show their delivery state until the robot acks them
+    ...(seq !== null && { seq, ack: 'pending' as CommandAck })
+});
 
 export default function App() {
-    // Initialize config from LocalStorage
-    const [config, setConfig] = useState<AppConfig>(() => {
+    // Robot profiles from LocalStorage; the focused one drives the main panels
+    const [fleet, setFleet] = useState<FleetState>(() => loadFleet(DEFAULT_CONFIG));
+    const fleetRef = useRef(fleet);
+    const config: RobotProfile = fleet.profiles.find(p => p.id === fleet.activeId) ?? fleet.profiles[0];
+    const useIframe = config.useIframe;
+    const [editingProfile, setEditingProfile] = useState(false);
+
+    // One link per robot that has been connected; views mirror their state for rendering
+    const linksRef = useRef<Map<string, RobotLink>>(new Map());
+    const [views, setViews] = useState<Record<string, RobotLinkView>>({});
+    const view = views[config.id] ?? EMPTY_VIEW;
+    const { state: connectionState, watchdogTrip, status: robotStatus, history: telemetryHistory, quality: linkQuality, traffic, servos: servoPositions, outboxDepth } = view;
+    // Input targeting for driving several rovers at once
+    const [controlTarget, setControlTarget] = useState<ControlTarget>('focused');
+    const [groupIds, setGroupIds] = useState<string[]>([]);
+
+    const [logs, setLogs] = useState<LogEntry[]>([]);
+    const [showConfig, setShowConfig] = useState(true); 
+    const [binaryMotor, setBinaryMotor] = useState(() => localStorage.getItem(BINARY_MOTOR_KEY) === 'true');
+    const [latencyThresholds, setLatencyThresholds] = useState<LatencyThresholds>(() => {
         try {
-            const saved = localStorage.getItem(STORAGE_KEY);
-            return saved ? JSON.parse(saved) : DEFAULT_CONFIG;
+            const saved = localStorage.getItem(LATENCY_THRESHOLDS_KEY);
+            return saved ? { ...DEFAULT_LATENCY_THRESHOLDS, ...JSON.parse(saved) } : DEFAULT_LATENCY_THRESHOLDS;
         } catch (e) {
-            return DEFAULT_CONFIG;
+            return DEFAULT_LATENCY_THRESHOLDS;
         }
     });
-
-    const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
-    const [logs, setLogs] = useState<LogEntry[]>([]);
-    const [showConfig, setShowConfig] = useState(true); 
-    const wsRef = useRef<WebSocket | null>(null);
-    const lastCmdRef = useRef<string>('');
+    const linkQualityLevel = linkLevel(linkQuality, latencyThresholds);
+    // Driver HUD over the video; the first visit picks the preset for the screen size
+    const [hud, setHud] = useState<HudSettings>(() => {
+        const fallback = defaultHudSettings(window.innerWidth < 1024 ? 'mobile' : 'desktop');
+        try {
+            const saved = localStorage.getItem(HUD_SETTINGS_KEY);
+            if (!saved) return fallback;
+            const parsed = JSON.parse(saved);
+            return { ...fallback, ...parsed, elements: { ...fallback.elements, ...parsed.elements } };
+        } catch (e) {
+            return fallback;
+        }
+    });
+    // Gemini Live voice session
+    const voiceRef = useRef<GeminiLiveService | null>(null);
+    const [voiceState, setVoiceState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
+    const [micLevel, setMicLevel] = useState(0);
+    const [talking, setTalking] = useState(false);
+    const [handsFree, setHandsFree] = useState(false);
+    const timedMotionRef = useRef<TimedMotionExecutor | null>(null);
+    // Macros: saved sequences, the one playing and an in-progress recording of manual input
+    const [macros, setMacros] = useState<Macro[]>(loadMacros);
+    const macrosRef = useRef(macros);
+    const macroPlayerRef = useRef<MacroPlayer | null>(null);
+    const [macroPlayback, setMacroPlayback] = useState<MacroPlayback | null>(null);
+    const macroRecorderRef = useRef<MacroRecorder | null>(null);
+    const [macroRecordingSteps, setMacroRecordingSteps] = useState<number | null>(null);
+    // Missions: parameterized step lists run by a state machine with a debugger
+    const [missions, setMissions] = useState<Mission[]>(loadMissions);
+    const missionRunnerRef = useRef<MissionRunner | null>(null);
+    const [missionRun, setMissionRun] = useState<MissionRun | null>(null);
+    // Rovers each executor was started on. Fixed at start, so a focus or target change mid-run
+    // neither redirects it nor sends its final stop to the wrong rovers.
+    const executorTargetsRef = useRef<Record<ExecutorKind, string[]>>({ timed: [], macro: [], mission: [], replay: [] });
+    // Scene analysis
+    const videoSourceRef = useRef<FrameSource | null>(null);
+    const [sceneResults, setSceneResults] = useState<SceneAnalysis[]>([]);
+    const [analyzing, setAnalyzing] = useState(false);
+    const analyzingRef = useRef(false);
+    const [autoScanSec, setAutoScanSec] = useState(0);
+    // Camera frames streamed into the voice session
+    const [vision, setVision] = useState<VisionSettings>({ enabled: false, fps: 1, maxKbps: 128 });
+    const [visionStats, setVisionStats] = useState<FrameGrabberStats | null>(null);
+    const cameraSignalOkRef = useRef(true);
     const [isLandscape, setIsLandscape] = useState(false);
     const [isHttps, setIsHttps] = useState(false);
+    // Session recording runs for the life of the app, whatever is on screen
+    const recorderRef = useRef<SessionRecorder | null>(null);
+    const [recorderStats, setRecorderStats] = useState<RecorderStats | null>(null);
+    const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+    const [recorderBusy, setRecorderBusy] = useState(false);
+    const [replay, setReplay] = useState<SessionRecording | null>(null);
+    const segmentReplayRef = useRef<SegmentReplay | null>(null);
+    const [segmentProgress, setSegmentProgress] = useState<number | null>(null);
     
-    // Initialize iframe mode preference from LocalStorage
-    const [useIframe, setUseIframe] = useState(() => {
-        return localStorage.getItem(IFRAME_MODE_KEY) === 'true';
-    });
+    // Save Profiles on Change
+    useEffect(() => {
+        fleetRef.current = fleet;
+        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(fleet));
+    }, [fleet]);
+
+    const updateProfileById = useCallback((id: string, patch: Partial<RobotProfile>) => {
+        setFleet(prev => ({
+            ...prev,
+            profiles: prev.profiles.map(p => p.id === id ? { ...p, ...patch } : p)
+        }));
+    }, []);
+
+    const updateProfile = useCallback((patch: Partial<RobotProfile>) => updateProfileById(fleet.activeId, patch), [fleet.activeId, updateProfileById]);
+
+    const setUseIframe = useCallback((val: boolean) => updateProfile({ useIframe: val }), [updateProfile]);
+    const setUseImgFallback = useCallback((val: boolean) => updateProfile({ useImgFallback: val }), [updateProfile]);
 
-    // Save Config on Change
     useEffect(() => {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-    }, [config]);
+        localStorage.setItem(HUD_SETTINGS_KEY, JSON.stringify(hud));
+    }, [hud]);
 
-    // Save Iframe Mode on Change
     useEffect(() => {
-        localStorage.setItem(IFRAME_MODE_KEY, String(useIframe));
-    }, [useIframe]);
+        macrosRef.current = macros;
+        localStorage.setItem(MACROS_STORAGE_KEY, JSON.stringify(macros));
+    }, [macros]);
+
+    useEffect(() => {
+        localStorage.setItem(MISSIONS_STORAGE_KEY, JSON.stringify(missions));
+    }, [missions]);
+
+    useEffect(() => {
+        localStorage.setItem(BINARY_MOTOR_KEY, String(binaryMotor));
+        linksRef.current.forEach(link => link.setBinaryMotorPreferred(binaryMotor));
+    }, [binaryMotor]);
+
+    useEffect(() => {
+        localStorage.setItem(LATENCY_THRESHOLDS_KEY, JSON.stringify(latencyThresholds));
+    }, [latencyThresholds]);
 
     // Helper to add logs
-    const addLog = useCallback((source: 'SYSTEM' | 'ROBOT' | 'AI' | 'USER', message: string, type: 'info' | 'warning' | 'error' | 'success' = 'info') => {
-        setLogs(prev => {
-            const newEntry: LogEntry = {
-                id: Math.random().toString(36).substr(2, 9),
-                timestamp: new Date(),
-                source,
-                message,
-                type
-            };
-            return [...prev.slice(-49), newEntry]; // Keep last 50
-        });
+    const addLog = useCallback((source: LogEntry['source'], message: string, type: LogEntry['type'] = 'info') => {
+        setLogs(prev => [...prev.slice(-49), makeLogEntry(source, message, type)]); // Keep last 50
+        recorderRef.current?.recordLog(null, source, message, type);
+    }, []);
+
+    useEffect(() => {
+        const recorder = new SessionRecorder({ onStats: setRecorderStats });
+        recorderRef.current = recorder;
+        return () => {
+            recorder.stop();
+        };
     }, []);
 
     // Robust Orientation and Protocol Check
@@ -89,94 +243,729 @@ export default function App() {
         return () => mql.removeEventListener('change', handleOrientationChange);
     }, [addLog]);
 
-    // WebSocket Connection Logic
-    const connectRobot = useCallback(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) return;
-        
-        let input = config.robotIp.trim();
-        let wsUrl = '';
+    const updateView = useCallback((id: string, update: (view: RobotLinkView) => Partial<RobotLinkView>) => {
+        setViews(prev => {
+            const current = prev[id] ?? EMPTY_VIEW;
+            return { ...prev, [id]: { ...current, ...update(current) } };
+        });
+    }, []);
+
+    const stopRovers = (ids: string[]) => ids.forEach(id => linksRef.current.get(id)?.send(STOP_COMMAND));
+
+    // A preempted timed move leaves its rovers moving, so they are stopped here
+    const preemptTimedMotion = (reason: string) => {
+        if (!timedMotionRef.current?.isBusy()) return;
+        timedMotionRef.current.preempt(reason);
+        stopRovers(executorTargetsRef.current.timed);
+    };
+
+    // Ends whatever is driving this rover, along with the rest of that executor's rovers
+    const abortExecutorsFor = (id: string, reason: string) => {
+        const targets = executorTargetsRef.current;
+        if (targets.timed.includes(id)) preemptTimedMotion(reason);
+        if (targets.macro.includes(id)) macroPlayerRef.current?.abort(reason);
+        if (targets.mission.includes(id)) missionRunnerRef.current?.abort(reason);
+        if (targets.replay.includes(id)) segmentReplayRef.current?.abort(reason);
+    };
+
+    // Rovers that a running executor is currently driving
+    const busyExecutorTargets = (): string[] => {
+        const targets = executorTargetsRef.current;
+        return [
+            ...(timedMotionRef.current?.isBusy() ? targets.timed : []),
+            ...(macroPlayerRef.current?.getPlayback() ? targets.macro : []),
+            ...(missionRunnerRef.current?.isActive() ? targets.mission : []),
+            ...(segmentReplayRef.current?.isRunning() ? targets.replay : [])
+        ];
+    };
+
+    // Returns the link for a profile, creating it on first use
+    const getLink = useCallback((id: string): RobotLink => {
+        const existing = linksRef.current.get(id);
+        if (existing) return existing;
+
+        const robot = () => ({ id, name: fleetRef.current.profiles.find(p => p.id === id)?.name ?? id });
+        const link = new RobotLink({
+            getConfig: () => fleetRef.current.profiles.find(p => p.id === id) ?? DEFAULT_CONFIG,
+            onState: (state) => {
+                updateView(id, () => ({ state }));
+                if (state === ConnectionState.CONNECTED && id === fleetRef.current.activeId) setShowConfig(false);
+                // Nothing carries on through a dropped link, even if it reconnects
+                if (state !== ConnectionState.CONNECTED && state !== ConnectionState.CONNECTING) {
+                    abortExecutorsFor(id, `Link lost (${state.toLowerCase()})`);
+                }
+            },
+            onLog: (source, message, type, seq = null) => {
+                updateView(id, v => ({ logs: [...v.logs.slice(-49), makeLogEntry(source, message, type, seq)] }));
+                recorderRef.current?.recordLog(id, source, message, type);
+            },
+            // Sequenced commands show their delivery state until the robot acks them
+            onAck: (seq, ack) => updateView(id, v => ({ logs: v.logs.map(log => log.seq === seq ? { ...log, ack } : log) })),
+            onTelemetry: (status) => updateView(id, v => ({ status, history: appendSample(v.history, status) })),
+            onQuality: (quality) => updateView(id, () => ({ quality })),
+            onWatchdog: (reason) => {
+                updateView(id, () => ({ watchdogTrip: reason }));
+                if (reason) abortExecutorsFor(id, `Watchdog tripped: ${reason}`);
+            },
+            onServoPositions: (servos) => updateView(id, () => ({ servos })),
+            onOutboxDepth: (outboxDepth) => updateView(id, () => ({ outboxDepth })),
+            onCommand: (cmd) => recorderRef.current?.recordCommand(robot(), cmd),
+            onInbound: (data) => recorderRef.current?.recordFrame(robot(), data)
+        });
+        link.setBinaryMotorPreferred(localStorage.getItem(BINARY_MOTOR_KEY) === 'true');
+        linksRef.current.set(id, link);
+        return link;
+    }, [updateView]);
+
+    const focusedLink = useCallback(() => getLink(fleetRef.current.activeId), [getLink]);
+
+    // Links that are up or trying to be
+    const isLinked = (state: ConnectionState | undefined) => state !== undefined && state !== ConnectionState.DISCONNECTED && state !== ConnectionState.ERROR;
+    const linkedProfiles = fleet.profiles.filter(p => isLinked(views[p.id]?.state));
+
+    // Drop links as soon as the app goes away
+    useEffect(() => {
+        const links = linksRef.current;
+        return () => links.forEach(link => link.disconnect());
+    }, []);
+
+    const connectRobot = useCallback(() => focusedLink().connect(), [focusedLink]);
+    const disconnectRobot = useCallback(() => linksRef.current.get(fleetRef.current.activeId)?.disconnect(), []);
+    const resetWatchdog = useCallback(() => focusedLink().resetWatchdog(), [focusedLink]);
+
+    // Changing focus keeps every link up; only the main panels follow the focused robot
+    const selectProfile = (id: string) => {
+        setFleet(prev => ({ ...prev, activeId: id }));
+        const profile = fleet.profiles.find(p => p.id === id);
+        addLog('SYSTEM', `Focused profile "${profile?.name}"`, 'info');
+    };
+
+    const createNewProfile = () => {
+        const profile = createProfile(uniqueName('Rover', fleet.profiles), DEFAULT_CONFIG);
+        setFleet({ profiles: [...fleet.profiles, profile], activeId: profile.id });
+        setShowConfig(true);
+        setEditingProfile(true);
+    };
+
+    // Offline rover for development and demos; no camera so the simulator view is shown
+    const createSimulatedProfile = () => {
+        const name = uniqueName('Sim Rover', fleet.profiles);
+        const address = `${SIMULATOR_SCHEME}${name.toLowerCase().replace(/\s+/g, '-')}`;
+        const profile = createProfile(name, { ...DEFAULT_CONFIG, robotIp: address, cameraUrl: '' });
+        setFleet({ profiles: [...fleet.profiles, profile], activeId: profile.id });
+        setShowConfig(true);
+    };
+
+    const duplicateActiveProfile = () => {
+        const profile = duplicateProfile(config, fleet.profiles);
+        setFleet({ profiles: [...fleet.profiles, profile], activeId: profile.id });
+        setShowConfig(true);
+        setEditingProfile(true);
+    };
+
+    const deleteActiveProfile = () => {
+        if (fleet.profiles.length <= 1) return;
+        if (!window.confirm(`Delete profile "${config.name}"?`)) return;
+        linksRef.current.get(config.id)?.disconnect();
+        linksRef.current.delete(config.id);
+        setViews(prev => {
+            const { [config.id]: _removed, ...rest } = prev;
+            return rest;
+        });
+        setGroupIds(prev => prev.filter(id => id !== config.id));
+        const profiles = fleet.profiles.filter(p => p.id !== config.id);
+        setFleet({ profiles, activeId: profiles[0].id });
+    };
 
-        // --- SMART ROBOT URL PARSING ---
-        if ((input.includes('ngrok') || input.includes('cloudflare')) && (input.startsWith('https://') || input.startsWith('http://'))) {
-             addLog('SYSTEM', 'Auto-correcting Tunnel URL to WSS...', 'info');
-             input = input.replace(/^https?:\/\//, 'wss://');
+    // Command Logic: fan out to whichever robots the input is targeting
+    const targetIds = useCallback((): string[] => {
+        const activeId = fleetRef.current.activeId;
+        if (controlTarget === 'all') {
+            const linked = [...linksRef.current.entries()].filter(([, link]) => isLinked(link.getState())).map(([id]) => id);
+            return linked.length > 0 ? linked : [activeId];
         }
+        if (controlTarget === 'group' && groupIds.length > 0) return groupIds;
+        return [activeId];
+    }, [controlTarget, groupIds]);
 
-        if (input.startsWith('wss://') || input.startsWith('ws://')) {
-            wsUrl = input;
-            if (!wsUrl.endsWith('/ws') && !wsUrl.endsWith('/')) {
-                wsUrl = `${wsUrl}/ws`;
-            }
-        } else {
-            wsUrl = `ws://${input}:${config.robotPort}/ws`;
+    // Returns false unless every one of the rovers has its link open
+    const sendTo = useCallback((ids: string[], cmd: RobotCommand) => {
+        for (const id of ids) getLink(id).send(cmd);
+        return ids.length > 0 && ids.every(id => getLink(id).isOpen());
+    }, [getLink]);
+
+    const sendCommand = useCallback((cmd: RobotCommand) => {
+        sendTo(targetIds(), cmd);
+    }, [targetIds, sendTo]);
+
+    // The voice link outlives target changes, so it reads the latest callbacks
+    const sendCommandRef = useRef(sendCommand);
+    const targetIdsRef = useRef(targetIds);
+    const focusedLinkRef = useRef(focusedLink);
+    useEffect(() => {
+        sendCommandRef.current = sendCommand;
+        targetIdsRef.current = targetIds;
+        focusedLinkRef.current = focusedLink;
+    }, [sendCommand, targetIds, focusedLink]);
+
+    // Rovers dropped from the control target stop, unless an executor is still driving them.
+    // Otherwise their keepalive would repeat the last manual motion with nothing left to stop it.
+    const manualTargetsRef = useRef<string[]>([]);
+    const linkedIdsKey = linkedProfiles.map(p => p.id).join(',');
+    useEffect(() => {
+        const ids = targetIds();
+        const busy = busyExecutorTargets();
+        stopRovers(manualTargetsRef.current.filter(id => !ids.includes(id) && !busy.includes(id)));
+        manualTargetsRef.current = ids;
+    }, [targetIds, fleet.activeId, linkedIdsKey]);
+
+    // A segment replay belongs to the rover that was focused when it was sent
+    useEffect(() => {
+        if (!executorTargetsRef.current.replay.includes(fleet.activeId)) segmentReplayRef.current?.abort('Focus changed');
+    }, [fleet.activeId]);
+
+    // Points the timed-move executor at new rovers; any it was still driving that are not among them stop
+    const claimTimedMotion = useCallback((ids: string[]) => {
+        if (timedMotionRef.current?.isBusy()) stopRovers(executorTargetsRef.current.timed.filter(id => !ids.includes(id)));
+        executorTargetsRef.current.timed = ids;
+    }, []);
+
+    // The first of an executor's rovers stands in for the rest in interlock checks
+    const executorLink = useCallback((kind: ExecutorKind) => getLink(executorTargetsRef.current[kind][0] ?? fleetRef.current.activeId), [getLink]);
+
+    // Refuses motion if any of the rovers has its watchdog tripped
+    const executorTrip = useCallback((ids: string[]) => ids.map(id => getLink(id).getWatchdogTrip()).find(Boolean) ?? null, [getLink]);
+
+    const toggleGroupMember = (id: string) => {
+        setGroupIds(prev => prev.includes(id) ? prev.filter(g => g !== id) : [...prev, id]);
+    };
+
+    // Fleet-wide emergency stop: every live link stops and locks out motion until resumed
+    const stopAllRobots = useCallback(() => {
+        preemptTimedMotion('Fleet emergency stop');
+        macroPlayerRef.current?.abort('Fleet emergency stop');
+        missionRunnerRef.current?.abort('Fleet emergency stop');
+        segmentReplayRef.current?.abort('Fleet emergency stop');
+        linksRef.current.forEach(link => {
+            if (isLinked(link.getState())) link.tripWatchdog('Fleet emergency stop');
+        });
+        addLog('SYSTEM', 'FLEET EMERGENCY STOP', 'error');
+    }, [addLog]);
+
+    const manualFlush = useCallback(() => focusedLink().flushOutbox(), [focusedLink]);
+    const clearOutbox = useCallback(() => focusedLink().clearOutbox(), [focusedLink]);
+
+    // Warn once each time latency crosses into a worse band
+    const prevLinkLevelRef = useRef(linkQualityLevel);
+    useEffect(() => {
+        const prev = prevLinkLevelRef.current;
+        prevLinkLevelRef.current = linkQualityLevel;
+        const rtt = linkQuality?.avgRttMs;
+        if (linkQualityLevel === 'critical' && prev !== 'critical') {
+            addLog('SYSTEM', `Link latency critical: ${rtt}ms average (limit ${latencyThresholds.criticalMs}ms). Drive with care.`, 'error');
+        } else if (linkQualityLevel === 'warn' && (prev === 'good' || prev === 'unknown')) {
+            addLog('SYSTEM', `Link latency high: ${rtt}ms average (warn at ${latencyThresholds.warnMs}ms)`, 'warning');
         }
+    }, [linkQualityLevel, linkQuality, latencyThresholds, addLog]);
 
-        addLog('SYSTEM', `Connecting to ${wsUrl}...`, 'info');
-        setConnectionState(ConnectionState.CONNECTING);
-        
-        try {
-            const ws = new WebSocket(wsUrl);
-            
-            ws.onopen = () => {
-                addLog('SYSTEM', 'WebSocket Connected', 'success');
-                setConnectionState(ConnectionState.CONNECTED);
-                setShowConfig(false); 
-            };
-            
-            ws.onerror = () => {
-                if (window.location.protocol === 'https:' && !wsUrl.startsWith('wss://')) {
-                     addLog('SYSTEM', 'BLOCKED: HTTPS app cannot connect to insecure WS. Use a Tunnel.', 'error');
-                } else {
-                     addLog('SYSTEM', 'Connection Error', 'error');
+    // Publish byte counters while linked
+    const anyConnected = Object.values(views).some((v: RobotLinkView) => v.state === ConnectionState.CONNECTED);
+    useEffect(() => {
+        if (!anyConnected) return;
+        const publish = () => linksRef.current.forEach((link, id) => {
+            if (link.isOpen()) updateView(id, () => ({ traffic: link.getTraffic() }));
+        });
+        publish();
+        const timer = setInterval(publish, 1000);
+        return () => clearInterval(timer);
+    }, [anyConnected, updateView]);
+
+    // Background tabs get their timers throttled, so the keepalive can't be trusted: stop instead
+    useEffect(() => {
+        const handleVisibility = () => {
+            if (!document.hidden) return;
+            linksRef.current.forEach(link => {
+                if (!link.isMoving()) return;
+                addLog('SYSTEM', 'Tab hidden while moving. Sending stop.', 'warning');
+                link.send(STOP_COMMAND);
+            });
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
+    }, [addLog]);
+
+    // The terminal shows app-wide messages interleaved with the focused robot's own log
+    const terminalLogs = useMemo(() => {
+        return [...logs, ...view.logs].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()).slice(-50);
+    }, [logs, view.logs]);
+
+    // Manual input always wins over a timed AI motion, a macro or a mission in progress
+    const sendManualCommand = useCallback((cmd: RobotCommand) => {
+        if (cmd.cmd === 'move') {
+            preemptTimedMotion('Manual override by driver');
+            macroPlayerRef.current?.abort('Manual override by driver');
+            missionRunnerRef.current?.abort('Manual override by driver');
+            segmentReplayRef.current?.abort('Manual override by driver');
+        }
+        const recorder = macroRecorderRef.current;
+        if (recorder) {
+            recorder.record(cmd);
+            setMacroRecordingSteps(recorder.stepCount());
+        }
+        sendCommand(cmd);
+    }, [sendCommand]);
+
+    useEffect(() => {
+        macroPlayerRef.current = new MacroPlayer({
+            send: (cmd) => sendTo(executorTargetsRef.current.macro, cmd),
+            getServoPositions: () => executorLink('macro').getServoPositions(),
+            onPlayback: setMacroPlayback,
+            onFinished: (macro, completed, detail) => addLog('SYSTEM', `Macro "${macro.name}": ${detail}`, completed ? 'success' : 'warning')
+        });
+        return () => macroPlayerRef.current?.abort('Player disposed');
+    }, [addLog, sendTo, executorLink]);
+
+    const startMacroRecording = useCallback(() => {
+        macroRecorderRef.current = new MacroRecorder();
+        setMacroRecordingSteps(0);
+    }, []);
+
+    const stopMacroRecording = useCallback(() => {
+        const steps = macroRecorderRef.current?.finish() ?? [];
+        macroRecorderRef.current = null;
+        setMacroRecordingSteps(null);
+        return steps;
+    }, []);
+
+    const playMacro = useCallback((macro: Macro) => {
+        missionRunnerRef.current?.abort('Macro started');
+        segmentReplayRef.current?.abort('Macro started');
+        // Stop the previous macro while it still points at its own rovers
+        macroPlayerRef.current?.abort('Superseded by another macro');
+        executorTargetsRef.current.macro = targetIds();
+        addLog('SYSTEM', `Macro "${macro.name}" started`, 'info');
+        macroPlayerRef.current?.play(macro);
+    }, [addLog, targetIds]);
+
+    // Macro hotkeys: press to start, press again to abort
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+            if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+            const macro = macrosRef.current.find(m => m.hotkey === e.key.toLowerCase());
+            if (!macro) return;
+            const player = macroPlayerRef.current;
+            if (player?.getPlayback()?.macroId === macro.id) player.abort('Stopped by hotkey');
+            else playMacro(macro);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [playMacro]);
+
+    const macroPanelProps = {
+        macros,
+        onChange: setMacros,
+        playback: macroPlayback,
+        recordingSteps: macroRecordingSteps,
+        onStartRecording: startMacroRecording,
+        onStopRecording: stopMacroRecording,
+        onPlay: playMacro,
+        onPause: () => macroPlayerRef.current?.pause(),
+        onResume: () => macroPlayerRef.current?.resume(),
+        onAbort: () => macroPlayerRef.current?.abort(),
+        servos: servoPositions
+    };
+
+    useEffect(() => {
+        timedMotionRef.current = new TimedMotionExecutor({
+            send: (cmd) => sendTo(executorTargetsRef.current.timed, cmd)
+        });
+        return () => timedMotionRef.current?.preempt('Executor disposed');
+    }, [sendTo]);
+
+    // --- VOICE CONTROL ---
+    const connectVoice = useCallback(async () => {
+        if (voiceRef.current) return;
+        const apiKey = process.env.API_KEY;
+        if (!apiKey) {
+            addLog('SYSTEM', 'Voice unavailable: GEMINI_API_KEY is not set', 'error');
+            setVoiceState(ConnectionState.ERROR);
+            return;
+        }
+
+        setVoiceState(ConnectionState.CONNECTING);
+        addLog('AI', 'Opening voice link...', 'info');
+
+        const service = new GeminiLiveService({
+            apiKey,
+            onAudioData: () => {},
+            onTranscript: (text, isUser) => addLog(isUser ? 'USER' : 'AI', text, 'info'),
+            onToolCall: async (cmd, durationMs) => {
+                const ids = targetIdsRef.current();
+                const trip = executorTrip(ids);
+                if (trip && (cmd.throttle !== 0 || cmd.steer !== 0)) {
+                    return { status: 'refused', requestedMs: durationMs, elapsedMs: 0, detail: `Watchdog tripped (${trip})` };
                 }
-                setConnectionState(ConnectionState.ERROR);
-            };
-            
-            ws.onclose = (e) => {
-                addLog('SYSTEM', `Closed (Code: ${e.code})`, 'warning');
-                setConnectionState(ConnectionState.DISCONNECTED);
-            };
+                claimTimedMotion(ids);
+                const result = await timedMotionRef.current!.run(cmd, durationMs);
+                if (result.status === 'preempted') addLog('AI', `Timed move preempted after ${result.elapsedMs}ms: ${result.detail}`, 'warning');
+                return result;
+            },
+            onEmote: async (id) => {
+                sendCommandRef.current({ cmd: 'emote', id });
+                return focusedLinkRef.current().isOpen()
+                    ? { status: 'ok', detail: `Showing emote ${id}` }
+                    : { status: 'offline', error: 'OFFLINE', detail: 'Robot offline: emote not delivered' };
+            },
+            onServo: async (cmd) => {
+                const refusal = checkServoInterlock(focusedLinkRef.current().getServoPositions(), cmd.target, cmd.state === 'open');
+                if (refusal) {
+                    addLog('AI', `Refused ${cmd.target} ${cmd.state}: ${refusal}`, 'warning');
+                    return { status: 'refused', error: 'INTERLOCK', detail: refusal };
+                }
+                sendCommandRef.current(cmd);
+                return focusedLinkRef.current().isOpen()
+                    ? { status: 'ok', detail: `${cmd.target} ${cmd.state === 'open' ? 'opened' : 'closed'}` }
+                    : { status: 'offline', error: 'OFFLINE', detail: 'Robot offline: servo command not delivered' };
+            },
+            onMicLevel: setMicLevel,
+            onClose: () => {
+                if (voiceRef.current === service) voiceRef.current = null;
+                setVoiceState(ConnectionState.DISCONNECTED);
+                setTalking(false);
+                setMicLevel(0);
+            },
+            onError: (err) => {
+                addLog('AI', `Voice error: ${err?.message || err}`, 'error');
+                setVoiceState(ConnectionState.ERROR);
+            }
+        });
 
-            ws.onmessage = (e) => {
-                addLog('ROBOT', `RX: ${e.data}`, 'info');
-            };
-            
-            wsRef.current = ws;
+        try {
+            await service.connect();
+            voiceRef.current = service;
+            service.setMicActive(handsFree);
+            setVoiceState(ConnectionState.CONNECTED);
+            addLog('AI', 'Voice link established', 'success');
         } catch (e: any) {
-            let msg = `Failed: ${e.message || e}`;
-            if (e.name === 'SecurityError') msg = "SECURITY ERROR: Mixed Content Blocked.";
-            addLog('SYSTEM', msg, 'error');
-            setConnectionState(ConnectionState.ERROR);
+            addLog('AI', `Voice link failed: ${e.message || e}`, 'error');
+            await service.disconnect().catch(() => {});
+            setVoiceState(ConnectionState.ERROR);
         }
-    }, [config, addLog]);
+    }, [addLog, handsFree, executorTrip, claimTimedMotion]);
+
+    const disconnectVoice = useCallback(() => {
+        const service = voiceRef.current;
+        voiceRef.current = null;
+        service?.disconnect().catch(() => {});
+        setVoiceState(ConnectionState.DISCONNECTED);
+        addLog('AI', 'Voice link closed', 'info');
+    }, [addLog]);
+
+    const handleTalk = useCallback((active: boolean) => {
+        setTalking(active);
+        voiceRef.current?.setMicActive(active || handsFree);
+    }, [handsFree]);
+
+    const toggleHandsFree = useCallback(() => {
+        const next = !handsFree;
+        setHandsFree(next);
+        voiceRef.current?.setMicActive(next || talking);
+        addLog('SYSTEM', next ? 'Voice: hands-free mode' : 'Voice: push-to-talk mode', 'info');
+    }, [handsFree, talking, addLog]);
+
+    // Release the mic and audio contexts if the app unmounts mid-session
+    useEffect(() => {
+        return () => {
+            voiceRef.current?.disconnect().catch(() => {});
+        };
+    }, []);
+
+    const visionUnavailableReason = useIframe ? 'Unavailable in compat (iframe) mode' : null;
+
+    useEffect(() => {
+        if (voiceState !== ConnectionState.CONNECTED || !vision.enabled || visionUnavailableReason) return;
+
+        const grabber = new FrameGrabber({
+            getImage: () => videoSourceRef.current,
+            isSignalLost: () => !cameraSignalOkRef.current,
+            onFrame: (base64) => voiceRef.current?.sendVideoFrame(base64),
+            onStats: setVisionStats
+        });
+        grabber.start(vision.fps, vision.maxKbps);
+        addLog('AI', `Camera vision on (${vision.fps} fps, ≤${vision.maxKbps} kbps)`, 'info');
+        return () => {
+            grabber.stop();
+            setVisionStats(null);
+        };
+    }, [voiceState, vision, visionUnavailableReason, addLog]);
+
+    const voicePanelProps = {
+        state: voiceState,
+        micLevel,
+        talking,
+        handsFree,
+        onConnect: connectVoice,
+        onDisconnect: disconnectVoice,
+        onTalk: handleTalk,
+        onToggleHandsFree: toggleHandsFree,
+        vision,
+        visionStats,
+        visionUnavailableReason,
+        onVisionChange: setVision
+    };
 
-    const disconnectRobot = useCallback(() => {
-        if (wsRef.current) {
-            wsRef.current.close();
-            wsRef.current = null;
-            addLog('SYSTEM', 'Disconnected by user', 'info');
+    const handleCameraSignal = useCallback((ok: boolean) => {
+        cameraSignalOkRef.current = ok;
+    }, []);
+
+    const handleFeedStream = useCallback((stream: MjpegStream | null) => {
+        recorderRef.current?.setVideoSource(stream);
+    }, []);
+
+    const handleFeedWarning = useCallback((message: string) => addLog('SYSTEM', message, 'warning'), [addLog]);
+
+    // --- SESSION RECORDING ---
+    const startRecording = useCallback(() => {
+        setLastRecording(null);
+        recorderRef.current?.start();
+        addLog('SYSTEM', 'Session recording started', 'info');
+    }, [addLog]);
+
+    const stopRecording = useCallback(async () => {
+        const recorder = recorderRef.current;
+        if (!recorder) return;
+        setRecorderBusy(true);
+        const recording = await recorder.stop();
+        setRecorderBusy(false);
+        if (!recording) return;
+        setLastRecording(recording);
+        addLog('SYSTEM', `Session recorded: ${recording.manifest.eventCount} events${recording.video ? ' with video' : ', no video'}`, 'success');
+    }, [addLog]);
+
+    const exportRecording = useCallback(async () => {
+        if (!lastRecording) return;
+        setRecorderBusy(true);
+        try {
+            const bundle = await exportSession(lastRecording);
+            const url = URL.createObjectURL(bundle);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = sessionFileName(lastRecording.manifest);
+            a.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        } catch (e: any) {
+            addLog('SYSTEM', `Session export failed: ${e?.message || e}`, 'error');
+        } finally {
+            setRecorderBusy(false);
+        }
+    }, [lastRecording, addLog]);
+
+    const openRecording = useCallback(async (file: File) => {
+        setRecorderBusy(true);
+        try {
+            const recording = await loadSessionBundle(file);
+            setLastRecording(recording);
+            setReplay(recording);
+        } catch (e: any) {
+            addLog('SYSTEM', `Could not open ${file.name}: ${e?.message || e}`, 'error');
+        } finally {
+            setRecorderBusy(false);
         }
-        setConnectionState(ConnectionState.DISCONNECTED);
     }, [addLog]);
 
-    // Command Logic
-    const sendCommand = useCallback((cmd: RobotCommand) => {
-        const cmdStr = JSON.stringify(cmd);
-        
-        // Don't deduplicate Emote commands, always send them
-        if (cmd.cmd !== 'emote') {
-             if (cmdStr === lastCmdRef.current) return;
-             lastCmdRef.current = cmdStr;
+    useEffect(() => {
+        segmentReplayRef.current = new SegmentReplay({
+            // Nothing is queued for later: a replay only makes sense with the original timing
+            send: (cmd) => {
+                const ids = executorTargetsRef.current.replay;
+                return ids.every(id => getLink(id).isOpen()) && sendTo(ids, cmd);
+            },
+            onProgress: setSegmentProgress,
+            onDone: (completed, detail) => {
+                setSegmentProgress(null);
+                addLog('SYSTEM', `Segment replay: ${detail}`, completed ? 'success' : 'warning');
+            }
+        });
+        return () => segmentReplayRef.current?.abort('Replay disposed');
+    }, [addLog, getLink, sendTo]);
+
+    // Segment replays go to the focused robot only and give way to every other source of motion
+    const sendSegment = useCallback((commands: TimedCommand[], label: string) => {
+        preemptTimedMotion('Segment replay started');
+        macroPlayerRef.current?.abort('Segment replay started');
+        missionRunnerRef.current?.abort('Segment replay started');
+        segmentReplayRef.current?.abort('Superseded by another segment');
+        executorTargetsRef.current.replay = [fleetRef.current.activeId];
+        addLog('SYSTEM', `Segment replay: sending ${label} to ${config.name}`, 'info');
+        segmentReplayRef.current?.start(commands);
+    }, [addLog, config.name]);
+
+    const closeReplay = useCallback(() => {
+        // Never leave a robot driving because the player was closed mid-segment
+        segmentReplayRef.current?.abort('Replay player closed');
+        setReplay(null);
+    }, []);
+
+    const replayPlayer = replay && (
+        <ReplayPlayer
+            recording={replay}
+            mobile={isLandscape && window.innerWidth < 1024}
+            liveRobot={{ name: config.name, connected: connectionState === ConnectionState.CONNECTED }}
+            liveProgress={segmentProgress}
+            onSendSegment={sendSegment}
+            onAbortSegment={() => segmentReplayRef.current?.abort()}
+            onClose={closeReplay}
+        />
+    );
+
+    const recorderPanelProps = {
+        stats: recorderStats,
+        recording: lastRecording,
+        busy: recorderBusy,
+        onStart: startRecording,
+        onStop: stopRecording,
+        onExport: exportRecording,
+        onDiscard: () => setLastRecording(null),
+        onReplay: () => setReplay(lastRecording),
+        onOpen: openRecording
+    };
+
+    const getFocusedMotion = useCallback(() => linksRef.current.get(fleetRef.current.activeId)?.getMotion() ?? null, []);
+
+    const hudOverlay = (
+        <DriverHud
+            settings={hud}
+            getMotion={getFocusedMotion}
+            speedLimit={config.speedLimit}
+            status={robotStatus}
+            quality={linkQuality}
+            level={linkQualityLevel}
+            servos={servoPositions}
+        />
+    );
+
+    // --- SCENE ANALYSIS ---
+    const sceneDisabledReason = useIframe
+        ? 'Frames cannot be captured in compat (iframe) mode'
+        : !config.cameraUrl ? 'No camera configured' : null;
+
+    // Resolves true once a description came back, so missions can tell whether the step worked.
+    // A mission that aborts meanwhile aborts the signal, and the late result is dropped.
+    const runSceneAnalysis = useCallback(async (signal?: AbortSignal) => {
+        if (analyzingRef.current) return false;
+
+        let frame: string | null = null;
+        let thumbnail: string | null = null;
+        try {
+            frame = captureFrame(videoSourceRef.current);
+            thumbnail = captureFrame(videoSourceRef.current, 160, 0.6);
+        } catch (e) {
+            addLog('SYSTEM', 'Frame capture blocked: camera does not allow cross-origin access (CORS)', 'error');
+            return false;
+        }
+        if (!frame || !thumbnail) {
+            addLog('SYSTEM', 'No camera frame available to analyze', 'warning');
+            return false;
         }
 
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-            wsRef.current.send(cmdStr);
-            addLog('USER', `TX: ${cmdStr}`, 'success');
-        } else {
-            addLog('USER', `TX (Offline): ${cmdStr}`, 'warning');
+        analyzingRef.current = true;
+        setAnalyzing(true);
+        addLog('AI', 'Analyzing scene...', 'info');
+        try {
+            const text = await analyzeScene(frame);
+            if (signal?.aborted) return false;
+            const failed = text.startsWith('Analysis failed');
+            const result: SceneAnalysis = {
+                id: Math.random().toString(36).substr(2, 9),
+                timestamp: new Date(),
+                thumbnail,
+                text,
+                failed
+            };
+            setSceneResults(prev => [...prev.slice(-(SCENE_HISTORY_LIMIT - 1)), result]);
+            addLog('AI', text, failed ? 'error' : 'info');
+            return !failed;
+        } finally {
+            analyzingRef.current = false;
+            setAnalyzing(false);
         }
     }, [addLog]);
 
+    useEffect(() => {
+        missionRunnerRef.current = new MissionRunner({
+            runMotion: (cmd, durationMs) => {
+                const ids = executorTargetsRef.current.mission;
+                const trip = executorTrip(ids);
+                if (trip && (cmd.throttle !== 0 || cmd.steer !== 0)) {
+                    return Promise.resolve({ status: 'refused', requestedMs: durationMs, elapsedMs: 0, detail: `Watchdog tripped (${trip})` });
+                }
+                claimTimedMotion(ids);
+                return timedMotionRef.current!.run(cmd, durationMs);
+            },
+            cancelMotion: (reason) => preemptTimedMotion(reason),
+            send: (cmd) => sendTo(executorTargetsRef.current.mission, cmd),
+            getServoPositions: () => executorLink('mission').getServoPositions(),
+            analyze: runSceneAnalysis,
+            onRun: setMissionRun,
+            onFinished: (mission, completed, detail) => addLog('SYSTEM', `Mission "${mission.name}": ${detail}`, completed ? 'success' : 'warning')
+        });
+        return () => missionRunnerRef.current?.abort('Runner disposed');
+    }, [addLog, runSceneAnalysis, sendTo, executorLink, executorTrip, claimTimedMotion]);
+
+    const startMission = useCallback((mission: Mission, singleStep: boolean) => {
+        macroPlayerRef.current?.abort('Mission started');
+        segmentReplayRef.current?.abort('Mission started');
+        // Stop the previous mission while it still points at its own rovers
+        missionRunnerRef.current?.abort('Superseded by another mission');
+        executorTargetsRef.current.mission = targetIds();
+        addLog('SYSTEM', `Mission "${mission.name}" ${singleStep ? 'started in debug mode' : 'started'}`, 'info');
+        missionRunnerRef.current?.start(mission, singleStep);
+    }, [addLog, targetIds]);
+
+    const exportMissionFile = useCallback((mission: Mission) => {
+        const url = URL.createObjectURL(exportMission(mission));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = missionFileName(mission);
+        a.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }, []);
+
+    const importMissionFile = useCallback(async (file: File) => {
+        try {
+            const mission = parseMission(await file.text());
+            setMissions(prev => [...prev, mission]);
+            addLog('SYSTEM', `Imported mission "${mission.name}" (${mission.steps.length} steps)`, 'success');
+            return mission;
+        } catch (e: any) {
+            addLog('SYSTEM', `Could not import ${file.name}: ${e?.message || e}`, 'error');
+            return null;
+        }
+    }, [addLog]);
+
+    const missionPlannerProps = {
+        missions,
+        onChange: setMissions,
+        run: missionRun,
+        servos: servoPositions,
+        onStart: startMission,
+        onStep: () => missionRunnerRef.current?.step(),
+        onPause: () => missionRunnerRef.current?.pause(),
+        onResume: () => missionRunnerRef.current?.resume(),
+        onAbort: () => missionRunnerRef.current?.abort(),
+        onDismiss: () => missionRunnerRef.current?.dismiss(),
+        onExport: exportMissionFile,
+        onImport: importMissionFile
+    };
+
+    // Periodic auto-scan
+    useEffect(() => {
+        if (autoScanSec <= 0 || sceneDisabledReason) return;
+        const timer = setInterval(() => runSceneAnalysis(), autoScanSec * 1000);
+        return () => clearInterval(timer);
+    }, [autoScanSec, sceneDisabledReason, runSceneAnalysis]);
+
     // Handle Camera URL Smart input
     const handleCameraUrlChange = (val: string) => {
         let newUrl = val;
@@ -184,24 +973,87 @@ export default function App() {
         if (isHttps && (val.includes('ngrok') || val.includes('trycloudflare')) && val.startsWith('http://')) {
             newUrl = val.replace('http://', 'https://');
         }
-        setConfig(prev => ({ ...prev, cameraUrl: newUrl }));
+        updateProfile({ cameraUrl: newUrl });
     };
 
     // --- IMMERSIVE MOBILE LANDSCAPE MODE ---
     if (isLandscape && window.innerWidth < 1024) {
         return (
             <div className="fixed inset-0 bg-black overflow-hidden select-none touch-none">
-                <VideoFeed 
-                    config={config} 
-                    fullscreen={true} 
-                    useIframe={useIframe}
-                    setUseIframe={setUseIframe}
-                />
-                <MobileControls onCommand={sendCommand} disabled={false} />
+                {replayPlayer}
+                {hasSimulatorView(config) ? (
+                    <SimulatorView address={config.robotIp} fullscreen={true} />
+                ) : (
+                    <VideoFeed 
+                        config={config} 
+                        fullscreen={true} 
+                        useIframe={useIframe}
+                        setUseIframe={setUseIframe}
+                        useImgFallback={config.useImgFallback}
+                        setUseImgFallback={setUseImgFallback}
+                        sourceRef={videoSourceRef}
+                        onSignalChange={handleCameraSignal}
+                        onStream={handleFeedStream}
+                        onWarning={handleFeedWarning}
+                        overlay={hudOverlay}
+                    />
+                )}
+                <MobileControls onCommand={sendManualCommand} servos={servoPositions} speedLimit={config.speedLimit} disabled={!!replay} />
                 <div className={`absolute top-4 right-4 w-3 h-3 rounded-full z-50 ${
+                    watchdogTrip ? 'bg-amber-500 shadow-[0_0_10px_#f59e0b] animate-pulse' :
+                    connectionState === ConnectionState.CONNECTED && linkQualityLevel === 'critical' ? 'bg-red-500 shadow-[0_0_10px_#ef4444] animate-pulse' :
+                    connectionState === ConnectionState.CONNECTED && linkQualityLevel === 'warn' ? 'bg-yellow-500 shadow-[0_0_10px_#eab308]' :
                     connectionState === ConnectionState.CONNECTED ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : 
+                    connectionState === ConnectionState.RECONNECTING ? 'bg-yellow-500 shadow-[0_0_10px_#eab308] animate-pulse' :
                     'bg-red-500 shadow-[0_0_10px_#ef4444]'
                 }`} />
+                <div className="absolute top-8 right-3 z-50 pointer-events-none">
+                    <LinkQuality quality={linkQuality} level={linkQualityLevel} thresholds={latencyThresholds} onThresholdsChange={setLatencyThresholds} compact />
+                </div>
+                <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-40">
+                    <VoicePanel {...voicePanelProps} compact />
+                </div>
+                <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2">
+                    <MissionPlanner {...missionPlannerProps} compact />
+                    <MacroPanel {...macroPanelProps} compact />
+                </div>
+                <div className="absolute top-3 right-10 z-50">
+                    <OutboxPanel depth={outboxDepth} canFlush={connectionState === ConnectionState.CONNECTED} onFlush={manualFlush} onClear={clearOutbox} compact />
+                </div>
+                {linkedProfiles.length > 1 && (
+                    <div className="absolute top-3 left-4 z-50">
+                        <TargetSelector
+                            target={controlTarget}
+                            onChange={setControlTarget}
+                            groupSize={groupIds.length}
+                            linkedCount={linkedProfiles.length}
+                            onStopAll={stopAllRobots}
+                            compact
+                        />
+                    </div>
+                )}
+                {robotStatus && (
+                    <div className="absolute top-10 left-4 z-40 pointer-events-none">
+                        <Telemetry history={telemetryHistory} current={robotStatus} compact />
+                    </div>
+                )}
+                {!watchdogTrip && (
+                    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-50">
+                        <RecorderPanel {...recorderPanelProps} compact />
+                    </div>
+                )}
+                {watchdogTrip && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 pointer-events-auto flex items-center gap-3 bg-red-950/90 border border-red-600 rounded-full pl-4 pr-1 py-1 shadow-2xl backdrop-blur-md">
+                        <ShieldAlert size={16} className="text-red-400 shrink-0" />
+                        <span className="text-[10px] font-mono font-bold text-red-200 tracking-widest uppercase">Watchdog Stop</span>
+                        <button 
+                            onClick={resetWatchdog}
+                            className="flex items-center gap-1 bg-red-600 active:bg-red-500 text-white text-[10px] font-black px-3 py-1.5 rounded-full"
+                        >
+                            <RotateCcw size={12} /> RESUME
+                        </button>
+                    </div>
+                )}
             </div>
         );
     }
@@ -209,6 +1061,7 @@ export default function App() {
     // --- DESKTOP / PORTRAIT MODE ---
     return (
         <div className="min-h-screen bg-gray-950 text-white flex flex-col items-center p-4 gap-6">
+            {replayPlayer}
             
             {/* HTTPS Cloud Run Warning */}
             {isHttps && (
@@ -242,12 +1095,28 @@ export default function App() {
                             <span className="text-[10px] text-gray-500 font-mono">MANUAL OVERRIDE</span>
                         </div>
                     </div>
-                    <button 
-                        onClick={() => setShowConfig(!showConfig)}
-                        className={`p-2 rounded hover:bg-gray-800 transition ${showConfig ? 'text-cyan-400' : 'text-gray-500'}`}
-                    >
-                        <Settings size={20} />
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <ProfileSwitcher
+                            profiles={fleet.profiles}
+                            activeId={fleet.activeId}
+                            editing={showConfig && editingProfile}
+                            onSelect={selectProfile}
+                            onCreate={createNewProfile}
+                            onCreateSimulated={createSimulatedProfile}
+                            onDuplicate={duplicateActiveProfile}
+                            onEdit={() => {
+                                setEditingProfile(!(showConfig && editingProfile));
+                                setShowConfig(true);
+                            }}
+                            onDelete={deleteActiveProfile}
+                        />
+                        <button 
+                            onClick={() => setShowConfig(!showConfig)}
+                            className={`p-2 rounded hover:bg-gray-800 transition ${showConfig ? 'text-cyan-400' : 'text-gray-500'}`}
+                        >
+                            <Settings size={20} />
+                        </button>
+                    </div>
                 </div>
 
                 {/* Expanded Config Inputs */}
@@ -256,30 +1125,53 @@ export default function App() {
                         {/* Robot Input */}
                         <div className="flex gap-2 items-center">
                             <div className="bg-gray-800 p-2 rounded text-gray-400">
-                                <Network size={16} />
+                                {config.transport === 'serial' ? <Usb size={16} /> : config.transport === 'ble' ? <Bluetooth size={16} /> : <Network size={16} />}
                             </div>
-                            <input 
-                                value={config.robotIp}
-                                onChange={e => setConfig({...config, robotIp: e.target.value})}
-                                className={`flex-1 bg-black border rounded px-3 py-2 text-sm font-mono outline-none transition-colors ${
-                                    isHttps && !config.robotIp.includes('trycloudflare') && !config.robotIp.includes('ngrok') && !config.robotIp.includes('wss://') 
-                                    ? 'border-cyan-800 text-cyan-200 placeholder-cyan-800' 
-                                    : 'border-gray-700 focus:border-cyan-500'
-                                }`}
-                                placeholder={isHttps ? "Paste Tunnel URL (Robot)..." : "Robot IP (192.168.4.1)"}
-                            />
+                            <select
+                                value={config.transport}
+                                onChange={e => updateProfile({ transport: e.target.value as TransportKind })}
+                                title="How to reach the robot"
+                                className="bg-black border border-gray-700 rounded px-2 py-2 text-xs font-mono text-gray-300 outline-none focus:border-cyan-500"
+                            >
+                                {(Object.keys(TRANSPORT_LABELS) as TransportKind[]).map(kind => <option key={kind} value={kind}>{TRANSPORT_LABELS[kind]}</option>)}
+                            </select>
+                            {config.transport === 'serial' ? (
+                                <select
+                                    value={config.serialBaud}
+                                    onChange={e => updateProfile({ serialBaud: Number(e.target.value) })}
+                                    className="flex-1 bg-black border border-gray-700 rounded px-3 py-2 text-sm font-mono outline-none focus:border-cyan-500"
+                                >
+                                    {SERIAL_BAUD_RATES.map(baud => <option key={baud} value={baud}>{baud} baud</option>)}
+                                </select>
+                            ) : config.transport === 'ble' ? (
+                                <span className="flex-1 px-3 py-2 text-xs font-mono text-gray-500 truncate">
+                                    Nordic UART service. Pick the rover when linking.
+                                </span>
+                            ) : (
+                                <input 
+                                    value={config.robotIp}
+                                    onChange={e => updateProfile({ robotIp: e.target.value })}
+                                    className={`flex-1 bg-black border rounded px-3 py-2 text-sm font-mono outline-none transition-colors ${
+                                        isHttps && !config.robotIp.includes('trycloudflare') && !config.robotIp.includes('ngrok') && !config.robotIp.includes('wss://') && !isSimulatorAddress(config.robotIp) 
+                                        ? 'border-cyan-800 text-cyan-200 placeholder-cyan-800' 
+                                        : 'border-gray-700 focus:border-cyan-500'
+                                    }`}
+                                    placeholder={isHttps ? "Paste Tunnel URL (Robot)..." : "Robot IP (192.168.4.1) or sim://name"}
+                                />
+                            )}
+                            <LinkQuality quality={linkQuality} level={linkQualityLevel} thresholds={latencyThresholds} onThresholdsChange={setLatencyThresholds} />
                             <button 
-                                onClick={connectionState === ConnectionState.CONNECTED ? disconnectRobot : connectRobot}
+                                onClick={connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING ? disconnectRobot : connectRobot}
                                 className={`px-4 py-2 rounded font-bold text-xs flex items-center gap-2 transition-all min-w-[100px] justify-center ${
                                     connectionState === ConnectionState.CONNECTED 
                                     ? 'bg-green-900/20 text-green-500 border border-green-900' 
-                                    : connectionState === ConnectionState.CONNECTING 
+                                    : connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING
                                         ? 'bg-yellow-900/20 text-yellow-500 border border-yellow-900 animate-pulse'
                                         : 'bg-cyan-900/20 text-cyan-500 border border-cyan-900 hover:bg-cyan-900/40'
                                 }`}
                             >
                                 <Wifi size={14} />
-                                {connectionState === ConnectionState.CONNECTED ? 'LINKED' : 'LINK'}
+                                {connectionState === ConnectionState.CONNECTED ? 'LINKED' : connectionState === ConnectionState.RECONNECTING ? 'RETRYING' : 'LINK'}
                             </button>
                         </div>
 
@@ -302,6 +1194,8 @@ export default function App() {
                                 <span className="text-[10px] text-gray-600 font-mono">AUTO-UPDATE</span>
                              </div>
                         </div>
+
+                        {editingProfile && <ProfileEditor profile={config} onChange={updateProfile} />}
                     </div>
                 )}
             </div>
@@ -309,16 +1203,91 @@ export default function App() {
             {/* Main Interface */}
             <div className="w-full flex flex-col items-center gap-6 relative">
                 
-                <VideoFeed 
-                    config={config} 
-                    useIframe={useIframe}
-                    setUseIframe={setUseIframe}
-                />
+                <div className="w-full flex flex-col lg:flex-row items-center lg:items-start justify-center gap-6">
+                    <div className={`w-full ${linkedProfiles.length > 1 ? 'max-w-[1024px]' : 'max-w-[640px]'}`}>
+                        {linkedProfiles.length > 1 ? (
+                            <FleetGrid
+                                profiles={linkedProfiles}
+                                views={views}
+                                focusedId={config.id}
+                                groupIds={groupIds}
+                                onFocus={selectProfile}
+                                onToggleGroup={toggleGroupMember}
+                                onResume={(id) => getLink(id).resetWatchdog()}
+                                onSetIframe={(id, val) => updateProfileById(id, { useIframe: val })}
+                                onSetImgFallback={(id, val) => updateProfileById(id, { useImgFallback: val })}
+                                sourceRef={videoSourceRef}
+                                onSignalChange={handleCameraSignal}
+                                onStream={handleFeedStream}
+                                onWarning={handleFeedWarning}
+                            />
+                        ) : hasSimulatorView(config) ? (
+                            <SimulatorView address={config.robotIp} />
+                        ) : (
+                            <VideoFeed 
+                                config={config} 
+                                useIframe={useIframe}
+                                setUseIframe={setUseIframe}
+                                useImgFallback={config.useImgFallback}
+                                setUseImgFallback={setUseImgFallback}
+                                sourceRef={videoSourceRef}
+                                onSignalChange={handleCameraSignal}
+                                onStream={handleFeedStream}
+                                onWarning={handleFeedWarning}
+                                overlay={hudOverlay}
+                            />
+                        )}
+                        {linkedProfiles.length <= 1 && !hasSimulatorView(config) && (
+                            <HudSettingsPanel settings={hud} onChange={setHud} />
+                        )}
+                    </div>
+                    <div className="w-full max-w-md lg:w-80 lg:mt-7">
+                        <ScenePanel
+                            results={sceneResults}
+                            analyzing={analyzing}
+                            autoScanSec={autoScanSec}
+                            setAutoScanSec={setAutoScanSec}
+                            onAnalyze={() => runSceneAnalysis()}
+                            disabledReason={sceneDisabledReason}
+                        />
+                    </div>
+                </div>
 
                 {/* Controls & Terminal */}
                 <div className="w-full max-w-md flex flex-col gap-4">
-                    <Controls onCommand={sendCommand} disabled={false} />
-                    <Terminal logs={logs} />
+                    {watchdogTrip && (
+                        <div className="bg-red-950/40 border border-red-700 rounded-lg p-3 flex items-center gap-3 font-mono text-xs">
+                            <ShieldAlert size={20} className="text-red-500 shrink-0" />
+                            <div className="flex-1 flex flex-col">
+                                <strong className="text-red-300 tracking-widest">WATCHDOG STOP</strong>
+                                <span className="text-red-200/70 text-[10px]">{watchdogTrip}. Motion locked out.</span>
+                            </div>
+                            <button 
+                                onClick={resetWatchdog}
+                                className="flex items-center gap-1 bg-red-900/50 hover:bg-red-800 text-red-200 px-3 py-2 rounded border border-red-700 text-[10px] font-bold transition-colors"
+                            >
+                                <RotateCcw size={12} /> RESUME
+                            </button>
+                        </div>
+                    )}
+                    {robotStatus && <Telemetry history={telemetryHistory} current={robotStatus} />}
+                    {fleet.profiles.length > 1 && (
+                        <TargetSelector
+                            target={controlTarget}
+                            onChange={setControlTarget}
+                            groupSize={groupIds.length}
+                            linkedCount={linkedProfiles.length}
+                            onStopAll={stopAllRobots}
+                        />
+                    )}
+                    <Controls onCommand={sendManualCommand} servos={servoPositions} speed={config.speedLimit} onSpeedChange={speedLimit => updateProfile({ speedLimit })} disabled={!!replay} />
+                    <MacroPanel {...macroPanelProps} />
+                    <MissionPlanner {...missionPlannerProps} />
+                    <VoicePanel {...voicePanelProps} />
+                    <OutboxPanel depth={outboxDepth} canFlush={connectionState === ConnectionState.CONNECTED} onFlush={manualFlush} onClear={clearOutbox} />
+                    <RecorderPanel {...recorderPanelProps} />
+                    <LinkTraffic traffic={traffic} binaryMotor={binaryMotor} onBinaryMotorChange={setBinaryMotor} />
+                    <Terminal logs={terminalLogs} />
                 </div>
             </div>
         </div>
@@ -1,40 +1,128 @@
 import React, { useCallback, useEffect, useState, useRef } from 'react';
-import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, StopCircle, Smile, Frown, Zap, Heart, MessageCircle, Moon } from 'lucide-react';
-import { RobotCommand } from '../types';
+import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, StopCircle, Smile, Frown, Zap, Heart, MessageCircle, Moon, Keyboard, Gamepad2, Settings } from 'lucide-react';
+import { GamepadAction, GamepadMapping, RampRates, RobotCommand, ServoPositions } from '../types';
+import type { ReplayState } from '../services/sessionReplay';
+import { GamepadInput, DEFAULT_GAMEPAD_MAPPING, bindButton } from '../services/gamepad';
+import { DEFAULT_RAMP_RATES, RAMP_TICK_MS, mixKeyboard, stepAxis, quantize } from '../services/ramp';
+import { checkServoInterlock } from '../services/servoInterlock';
+import { GamepadSettings } from './GamepadSettings';
 
 interface Props {
     onCommand: (cmd: RobotCommand) => void;
+    servos: ServoPositions;
+    speed: number;         // Speed limit from the active robot profile, 0 to 255
+    onSpeedChange: (speed: number) => void;
     disabled: boolean;
+    playback?: ReplayState | null; // Recorded state to show while replaying a session
 }
 
-export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
-    const [speed, setSpeed] = useState(200);
+const GAMEPAD_STORAGE_KEY = 'rover_cmd_gamepad_v1';
+const RAMP_STORAGE_KEY = 'rover_cmd_ramp_v1';
+
+export const Controls: React.FC<Props> = ({ onCommand, servos, speed, onSpeedChange, disabled, playback = null }) => {
     const activeKeys = useRef<Set<string>>(new Set());
 
-    // Compute and send command based on active inputs
+    // Keyboard ramps: keys set a target, the control loop eases towards it
+    const [rampRates, setRampRates] = useState<RampRates>(() => {
+        try {
+            const saved = localStorage.getItem(RAMP_STORAGE_KEY);
+            return saved ? { ...DEFAULT_RAMP_RATES, ...JSON.parse(saved) } : DEFAULT_RAMP_RATES;
+        } catch (e) {
+            return DEFAULT_RAMP_RATES;
+        }
+    });
+    const ramp = useRef({ throttle: 0, steer: 0 });
+    const lastTick = useRef(0);
+    const lastSent = useRef({ throttle: 0, steer: 0 });
+
+    useEffect(() => {
+        localStorage.setItem(RAMP_STORAGE_KEY, JSON.stringify(rampRates));
+    }, [rampRates]);
+
+    // Gamepad input, mapping persisted in LocalStorage
+    const [gamepadMapping, setGamepadMapping] = useState<GamepadMapping>(() => {
+        try {
+            const saved = localStorage.getItem(GAMEPAD_STORAGE_KEY);
+            return saved ? { ...DEFAULT_GAMEPAD_MAPPING, ...JSON.parse(saved) } : DEFAULT_GAMEPAD_MAPPING;
+        } catch (e) {
+            return DEFAULT_GAMEPAD_MAPPING;
+        }
+    });
+    const [padName, setPadName] = useState<string | null>(null);
+    const [showGamepadSettings, setShowGamepadSettings] = useState(false);
+    const [bindingAction, setBindingAction] = useState<GamepadAction | null>(null);
+    const gamepadMappingRef = useRef(gamepadMapping);
+    const bindingActionRef = useRef<GamepadAction | null>(null);
+    const servosRef = useRef(servos);
+    const padAxes = useRef({ throttle: 0, steer: 0 });
+
+    useEffect(() => {
+        gamepadMappingRef.current = gamepadMapping;
+        localStorage.setItem(GAMEPAD_STORAGE_KEY, JSON.stringify(gamepadMapping));
+    }, [gamepadMapping]);
+
+    useEffect(() => {
+        servosRef.current = servos;
+    }, [servos]);
+
+    useEffect(() => {
+        bindingActionRef.current = bindingAction;
+    }, [bindingAction]);
+
+    // Compute and send command based on active inputs. Runs on every control tick.
     const processInput = useCallback(() => {
         if (disabled) return;
 
-        let throttle = 0;
-        let steer = 0;
+        const now = Date.now();
+        const dt = Math.min(0.1, (now - (lastTick.current || now)) / 1000);
+        lastTick.current = now;
 
         // Check keys
         const keys = activeKeys.current;
-        if (keys.has('w') || keys.has('arrowup')) throttle += speed;
-        if (keys.has('s') || keys.has('arrowdown')) throttle -= speed;
-        if (keys.has('d') || keys.has('arrowright')) steer += speed;
-        if (keys.has('a') || keys.has('arrowleft')) steer -= speed;
+        let forward = 0;
+        let turn = 0;
+        if (keys.has('w') || keys.has('arrowup')) forward += 1;
+        if (keys.has('s') || keys.has('arrowdown')) forward -= 1;
+        if (keys.has('d') || keys.has('arrowright')) turn += 1;
+        if (keys.has('a') || keys.has('arrowleft')) turn -= 1;
+
+        const target = mixKeyboard(forward, turn, speed);
+        ramp.current = {
+            throttle: stepAxis(ramp.current.throttle, target.throttle, dt, rampRates),
+            steer: stepAxis(ramp.current.steer, target.steer, dt, rampRates)
+        };
+
+        let throttle = quantize(ramp.current.throttle);
+        let steer = quantize(ramp.current.steer);
+
+        // A deflected stick takes over from the keys; full deflection maps to the speed limit
+        const pad = padAxes.current;
+        if (pad.throttle !== 0 || pad.steer !== 0) {
+            throttle = Math.round((pad.throttle / 255) * speed);
+            steer = Math.round((pad.steer / 255) * speed);
+        }
 
         // Clamp
         throttle = Math.max(-255, Math.min(255, throttle));
         steer = Math.max(-255, Math.min(255, steer));
 
+        if (throttle === lastSent.current.throttle && steer === lastSent.current.steer) return;
+        lastSent.current = { throttle, steer };
+
         onCommand({
             cmd: 'move',
             throttle,
             steer
         });
-    }, [disabled, onCommand, speed]);
+    }, [disabled, onCommand, speed, rampRates]);
+
+    // Fixed-rate control loop
+    useEffect(() => {
+        if (disabled) return;
+        lastTick.current = Date.now();
+        const timer = setInterval(processInput, RAMP_TICK_MS);
+        return () => clearInterval(timer);
+    }, [disabled, processInput]);
 
     // Handle button clicks (simulating keys for consistency)
     const handleBtn = (key: string, pressed: boolean) => {
@@ -43,9 +131,13 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
         processInput();
     };
 
+    // Emergency stop skips the brake ramp
     const stopAll = () => {
         activeKeys.current.clear();
-        processInput();
+        ramp.current = { throttle: 0, steer: 0 };
+        lastSent.current = { throttle: 0, steer: 0 };
+        if (disabled) return;
+        onCommand({ cmd: 'move', throttle: 0, steer: 0 });
     };
 
     const sendEmote = (id: number) => {
@@ -53,6 +145,54 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
         onCommand({ cmd: 'emote', id });
     };
 
+    const runGamepadAction = useCallback((action: GamepadAction) => {
+        if (disabled) return;
+        if (action.type === 'emote') {
+            onCommand({ cmd: 'emote', id: action.id });
+            return;
+        }
+        const open = !servosRef.current[action.target];
+        if (checkServoInterlock(servosRef.current, action.target, open)) return;
+        onCommand({ cmd: 'servo', target: action.target, state: open ? 'open' : 'close' });
+    }, [disabled, onCommand]);
+
+    // Gamepad polling (only while enabled)
+    const processInputRef = useRef(processInput);
+    const runGamepadActionRef = useRef(runGamepadAction);
+    useEffect(() => {
+        processInputRef.current = processInput;
+        runGamepadActionRef.current = runGamepadAction;
+    }, [processInput, runGamepadAction]);
+
+    useEffect(() => {
+        if (!gamepadMapping.enabled) return;
+
+        const input = new GamepadInput({
+            getMapping: () => gamepadMappingRef.current,
+            onAxes: (throttle, steer) => {
+                padAxes.current = { throttle, steer };
+                processInputRef.current();
+            },
+            onButton: (index) => {
+                const binding = bindingActionRef.current;
+                if (binding) {
+                    setGamepadMapping(prev => bindButton(prev, index, binding));
+                    setBindingAction(null);
+                    return;
+                }
+                const action = gamepadMappingRef.current.buttons[index];
+                if (action) runGamepadActionRef.current(action);
+            },
+            onConnectionChange: setPadName
+        });
+        input.start();
+        return () => {
+            input.stop();
+            padAxes.current = { throttle: 0, steer: 0 };
+            setPadName(null);
+        };
+    }, [gamepadMapping.enabled]);
+
     // Keyboard support
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -85,9 +225,66 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
         };
     }, [disabled, processInput]);
 
+    // During replay the buttons light up for the recorded direction and emote
+    const replayKeys = playback && {
+        w: playback.motion.throttle > 0,
+        s: playback.motion.throttle < 0,
+        a: playback.motion.steer < 0,
+        d: playback.motion.steer > 0
+    };
+    const arrowClass = (key: 'w' | 'a' | 's' | 'd') => `p-4 ${replayKeys?.[key] ? 'bg-cyan-600 border-cyan-400' : 'bg-gray-800 border-gray-700'} hover:bg-cyan-600 active:bg-cyan-500 rounded-lg transition-colors border hover:border-cyan-400 group`;
+    const arrowIconClass = (key: 'w' | 'a' | 's' | 'd') => `${replayKeys?.[key] ? 'text-white' : 'text-gray-400'} group-hover:text-white`;
+    const emoteRing = (id: number) => playback?.emote === id ? 'ring-2 ring-cyan-400' : '';
+
     return (
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 shadow-lg flex flex-col items-center">
             <h3 className="text-gray-400 text-sm font-bold mb-4 uppercase tracking-wider">Manual Override</h3>
+
+            {/* Input Sources */}
+            <div className="w-full flex items-center justify-center gap-2 mb-4 text-[10px] font-mono">
+                <span className="flex items-center gap-1 px-2 py-1 rounded border border-cyan-900 text-cyan-500 bg-cyan-900/20">
+                    <Keyboard size={12} /> KEYBOARD
+                </span>
+                <button
+                    onClick={() => setGamepadMapping(prev => ({ ...prev, enabled: !prev.enabled }))}
+                    className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+                        gamepadMapping.enabled
+                            ? padName ? 'border-green-800 text-green-400 bg-green-900/20' : 'border-yellow-900 text-yellow-500 bg-yellow-900/10'
+                            : 'border-gray-700 text-gray-500 hover:border-gray-500'
+                    }`}
+                    title={padName ?? 'Gamepad'}
+                >
+                    <Gamepad2 size={12} /> {gamepadMapping.enabled ? (padName ? 'GAMEPAD' : 'GAMEPAD: PRESS A BUTTON') : 'GAMEPAD OFF'}
+                </button>
+                <button
+                    onClick={() => {
+                        setShowGamepadSettings(!showGamepadSettings);
+                        setBindingAction(null);
+                    }}
+                    className={`p-1 rounded border transition-colors ${showGamepadSettings ? 'border-cyan-700 text-cyan-400' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                    title="Gamepad mapping"
+                >
+                    <Settings size={12} />
+                </button>
+            </div>
+
+            {showGamepadSettings && (
+                <GamepadSettings
+                    mapping={gamepadMapping}
+                    onChange={setGamepadMapping}
+                    padName={padName}
+                    bindingAction={bindingAction}
+                    onStartBinding={(action) => {
+                        // Button presses only reach us while polling is on
+                        if (action && !gamepadMapping.enabled) setGamepadMapping(prev => ({ ...prev, enabled: true }));
+                        setBindingAction(action);
+                    }}
+                    onClose={() => {
+                        setShowGamepadSettings(false);
+                        setBindingAction(null);
+                    }}
+                />
+            )}
             
             {/* Movement Grid */}
             <div className="grid grid-cols-3 gap-3 mb-6">
@@ -98,9 +295,9 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
                     onMouseLeave={() => handleBtn('w', false)}
                     onTouchStart={() => handleBtn('w', true)}
                     onTouchEnd={() => handleBtn('w', false)}
-                    className="p-4 bg-gray-800 hover:bg-cyan-600 active:bg-cyan-500 rounded-lg transition-colors border border-gray-700 hover:border-cyan-400 group"
+                    className={arrowClass('w')}
                 >
-                    <ArrowUp className="text-gray-400 group-hover:text-white" size={32} />
+                    <ArrowUp className={arrowIconClass('w')} size={32} />
                 </button>
                 <div />
                 
@@ -110,9 +307,9 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
                     onMouseLeave={() => handleBtn('a', false)}
                     onTouchStart={() => handleBtn('a', true)}
                     onTouchEnd={() => handleBtn('a', false)}
-                    className="p-4 bg-gray-800 hover:bg-cyan-600 active:bg-cyan-500 rounded-lg transition-colors border border-gray-700 hover:border-cyan-400 group"
+                    className={arrowClass('a')}
                 >
-                    <ArrowLeft className="text-gray-400 group-hover:text-white" size={32} />
+                    <ArrowLeft className={arrowIconClass('a')} size={32} />
                 </button>
                 
                 <button 
@@ -128,9 +325,9 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
                     onMouseLeave={() => handleBtn('d', false)}
                     onTouchStart={() => handleBtn('d', true)}
                     onTouchEnd={() => handleBtn('d', false)}
-                    className="p-4 bg-gray-800 hover:bg-cyan-600 active:bg-cyan-500 rounded-lg transition-colors border border-gray-700 hover:border-cyan-400 group"
+                    className={arrowClass('d')}
                 >
-                    <ArrowRight className="text-gray-400 group-hover:text-white" size={32} />
+                    <ArrowRight className={arrowIconClass('d')} size={32} />
                 </button>
 
                 <div />
@@ -140,9 +337,9 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
                     onMouseLeave={() => handleBtn('s', false)}
                     onTouchStart={() => handleBtn('s', true)}
                     onTouchEnd={() => handleBtn('s', false)}
-                    className="p-4 bg-gray-800 hover:bg-cyan-600 active:bg-cyan-500 rounded-lg transition-colors border border-gray-700 hover:border-cyan-400 group"
+                    className={arrowClass('s')}
                 >
-                    <ArrowDown className="text-gray-400 group-hover:text-white" size={32} />
+                    <ArrowDown className={arrowIconClass('s')} size={32} />
                 </button>
                 <div />
             </div>
@@ -158,21 +355,39 @@ export const Controls: React.FC<Props> = ({ onCommand, disabled }) => {
                     min="0" 
                     max="255" 
                     value={speed} 
-                    onChange={(e) => setSpeed(Number(e.target.value))}
+                    onChange={(e) => onSpeedChange(Number(e.target.value))}
                     className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                 />
+
+                {/* Ramp Rates (units per second) */}
+                <div className="grid grid-cols-3 gap-3 mt-3">
+                    {(['accel', 'decel', 'brake'] as (keyof RampRates)[]).map(key => (
+                        <label key={key} className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono">
+                            <span className="flex justify-between uppercase"><span>{key}</span><span>{rampRates[key]}/s</span></span>
+                            <input
+                                type="range"
+                                min="100"
+                                max="2000"
+                                step="50"
+                                value={rampRates[key]}
+                                onChange={(e) => setRampRates(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                            />
+                        </label>
+                    ))}
+                </div>
             </div>
 
             {/* Emotes */}
             <div className="w-full border-t border-gray-800 pt-4">
                 <span className="text-xs text-gray-500 font-bold mb-3 block text-center uppercase">Head Emotes</span>
                 <div className="grid grid-cols-6 gap-2">
-                    <button onClick={() => sendEmote(1)} className="aspect-square bg-gray-800 hover:bg-yellow-900/50 rounded flex items-center justify-center text-yellow-500 transition-colors" title="Happy"><Smile size={20}/></button>
-                    <button onClick={() => sendEmote(2)} className="aspect-square bg-gray-800 hover:bg-blue-900/50 rounded flex items-center justify-center text-blue-500 transition-colors" title="Sad"><Frown size={20}/></button>
-                    <button onClick={() => sendEmote(3)} className="aspect-square bg-gray-800 hover:bg-orange-900/50 rounded flex items-center justify-center text-orange-500 transition-colors" title="Action"><Zap size={20}/></button>
-                    <button onClick={() => sendEmote(4)} className="aspect-square bg-gray-800 hover:bg-pink-900/50 rounded flex items-center justify-center text-pink-500 transition-colors" title="Love"><Heart size={20}/></button>
-                    <button onClick={() => sendEmote(5)} className="aspect-square bg-gray-800 hover:bg-red-900/50 rounded flex items-center justify-center text-red-500 transition-colors" title="Alert"><MessageCircle size={20}/></button>
-                    <button onClick={() => sendEmote(6)} className="aspect-square bg-gray-800 hover:bg-purple-900/50 rounded flex items-center justify-center text-purple-500 transition-colors" title="Sleep"><Moon size={20}/></button>
+                    <button onClick={() => sendEmote(1)} className={`aspect-square ${emoteRing(1)} bg-gray-800 hover:bg-yellow-900/50 rounded flex items-center justify-center text-yellow-500 transition-colors`} title="Happy"><Smile size={20}/></button>
+                    <button onClick={() => sendEmote(2)} className={`aspect-square ${emoteRing(2)} bg-gray-800 hover:bg-blue-900/50 rounded flex items-center justify-center text-blue-500 transition-colors`} title="Sad"><Frown size={20}/></button>
+                    <button onClick={() => sendEmote(3)} className={`aspect-square ${emoteRing(3)} bg-gray-800 hover:bg-orange-900/50 rounded flex items-center justify-center text-orange-500 transition-colors`} title="Action"><Zap size={20}/></button>
+                    <button onClick={() => sendEmote(4)} className={`aspect-square ${emoteRing(4)} bg-gray-800 hover:bg-pink-900/50 rounded flex items-center justify-center text-pink-500 transition-colors`} title="Love"><Heart size={20}/></button>
+                    <button onClick={() => sendEmote(5)} className={`aspect-square ${emoteRing(5)} bg-gray-800 hover:bg-red-900/50 rounded flex items-center justify-center text-red-500 transition-colors`} title="Alert"><MessageCircle size={20}/></button>
+                    <button onClick={() => sendEmote(6)} className={`aspect-square ${emoteRing(6)} bg-gray-800 hover:bg-purple-900/50 rounded flex items-center justify-center text-purple-500 transition-colors`} title="Sleep"><Moon size={20}/></button>
                 </div>
             </div>
         </div>
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef } from 'react';
+import { HudLayout, HudSettings, LinkLevel, LinkQuality, MotorCommand, RobotStatus, ServoPositions } from '../types';
+import { projectDrivePath, PathPoint } from '../services/hud';
+
+interface Props {
+    settings: HudSettings;
+    getMotion: () => MotorCommand | null; // Read every animation frame, so it must be cheap
+    speedLimit: number;
+    status: RobotStatus | null;
+    quality: LinkQuality | null;
+    level: LinkLevel;
+    servos: ServoPositions;
+}
+
+// Where each group sits; mobile keeps clear of the joysticks, the voice button and the top-left telemetry
+const LAYOUTS: Record<HudLayout, { readouts: string, servos: string, vector: { x: number, y: number } }> = {
+    desktop: {
+        readouts: 'bottom-2 left-2 flex-col items-start',
+        servos: 'bottom-2 right-2',
+        vector: { x: 0.88, y: 0.66 }
+    },
+    mobile: {
+        readouts: 'top-12 left-1/2 -translate-x-1/2 flex-row items-center',
+        servos: 'top-20 left-1/2 -translate-x-1/2',
+        vector: { x: 0.86, y: 0.3 }
+    }
+};
+
+const LEVEL_TEXT: Record<LinkLevel, string> = {
+    unknown: 'text-gray-400',
+    good: 'text-green-400',
+    warn: 'text-yellow-400',
+    critical: 'text-red-400'
+};
+
+const HUD_COLOR = 'rgba(34, 211, 238, 0.85)';
+const HUD_DIM = 'rgba(34, 211, 238, 0.35)';
+const REVERSE_COLOR = 'rgba(251, 191, 36, 0.85)';
+
+// Bars lit for a Wi-Fi RSSI in dBm
+const rssiBars = (rssi: number) => rssi >= -55 ? 4 : rssi >= -65 ? 3 : rssi >= -75 ? 2 : rssi >= -85 ? 1 : 0;
+
+const strokePath = (ctx: CanvasRenderingContext2D, points: PathPoint[]) => {
+    ctx.beginPath();
+    points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+};
+
+const drawCrosshair = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+    const cx = w / 2;
+    const cy = h / 2;
+    const size = Math.min(w, h) * 0.04;
+    ctx.strokeStyle = HUD_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(cx - size * 2, cy); ctx.lineTo(cx - size / 2, cy);
+    ctx.moveTo(cx + size / 2, cy); ctx.lineTo(cx + size * 2, cy);
+    ctx.moveTo(cx, cy - size * 2); ctx.lineTo(cx, cy - size / 2);
+    ctx.moveTo(cx, cy + size / 2); ctx.lineTo(cx, cy + size * 2);
+    ctx.stroke();
+};
+
+const drawDrivePath = (ctx: CanvasRenderingContext2D, motion: MotorCommand | null, w: number, h: number) => {
+    const path = projectDrivePath(motion, w, h);
+    const moving = !!motion && (motion.throttle !== 0 || motion.steer !== 0);
+    ctx.strokeStyle = path.reversing ? REVERSE_COLOR : moving ? HUD_COLOR : HUD_DIM;
+    ctx.lineWidth = 2;
+    strokePath(ctx, path.left);
+    strokePath(ctx, path.right);
+
+    ctx.lineWidth = 1;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.font = '9px monospace';
+    for (const tick of path.ticks) {
+        strokePath(ctx, [tick.from, tick.to]);
+        ctx.fillText(`${tick.metres}m`, tick.to.x + 4, tick.to.y + 3);
+    }
+};
+
+// Stick-style dot for throttle/steer, with the speed limit as a dashed ring
+const drawVector = (ctx: CanvasRenderingContext2D, motion: MotorCommand | null, speedLimit: number, layout: HudLayout, w: number, h: number) => {
+    const { x, y } = LAYOUTS[layout].vector;
+    const cx = w * x;
+    const cy = h * y;
+    const r = Math.min(w, h) * 0.09;
+
+    ctx.strokeStyle = HUD_DIM;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+    ctx.moveTo(cx - r, cy); ctx.lineTo(cx + r, cy);
+    ctx.moveTo(cx, cy - r); ctx.lineTo(cx, cy + r);
+    ctx.stroke();
+
+    ctx.setLineDash([3, 3]);
+    ctx.beginPath();
+    ctx.arc(cx, cy, (r * speedLimit) / 255, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const dx = (r * (motion?.steer ?? 0)) / 255;
+    const dy = (-r * (motion?.throttle ?? 0)) / 255;
+    ctx.strokeStyle = (motion?.throttle ?? 0) < 0 ? REVERSE_COLOR : HUD_COLOR;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.lineTo(cx + dx, cy + dy);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(cx + dx, cy + dy, 4, 0, Math.PI * 2);
+    ctx.fill();
+};
+
+export const DriverHud: React.FC<Props> = ({ settings, getMotion, speedLimit, status, quality, level, servos }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const { layout, elements } = settings;
+    const drawsCanvas = elements.crosshair || elements.drivePath || elements.vector;
+
+    // Latest props for the animation loop without restarting it on every render
+    const drawRef = useRef({ getMotion, speedLimit, layout, elements });
+    drawRef.current = { getMotion, speedLimit, layout, elements };
+
+    useEffect(() => {
+        if (!settings.enabled || !drawsCanvas) return;
+        let frame = 0;
+        const draw = () => {
+            frame = requestAnimationFrame(draw);
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext('2d');
+            if (!canvas || !ctx) return;
+            const w = canvas.clientWidth;
+            const h = canvas.clientHeight;
+            if (canvas.width !== w || canvas.height !== h) {
+                canvas.width = w;
+                canvas.height = h;
+            }
+            ctx.clearRect(0, 0, w, h);
+
+            const { getMotion, speedLimit, layout, elements } = drawRef.current;
+            const motion = getMotion();
+            if (elements.drivePath) drawDrivePath(ctx, motion, w, h);
+            if (elements.crosshair) drawCrosshair(ctx, w, h);
+            if (elements.vector) drawVector(ctx, motion, speedLimit, layout, w, h);
+        };
+        draw();
+        return () => cancelAnimationFrame(frame);
+    }, [settings.enabled, drawsCanvas]);
+
+    if (!settings.enabled) return null;
+
+    const chip = 'bg-black/50 rounded px-1.5 py-0.5 flex items-center gap-1';
+    const battery = status?.battery ?? null;
+    const bars = status ? rssiBars(status.rssi) : 0;
+    const rtt = quality?.avgRttMs ?? null;
+
+    return (
+        <div className="absolute inset-0 pointer-events-none font-mono text-[10px] text-cyan-300">
+            {drawsCanvas && <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />}
+
+            <div className={`absolute flex gap-1 ${LAYOUTS[layout].readouts}`}>
+                {elements.speedLimit && (
+                    <span className={chip}>LIMIT {Math.round((speedLimit / 255) * 100)}%</span>
+                )}
+                {elements.battery && (
+                    <span className={chip}>
+                        BAT
+                        <span className="w-8 h-2 border border-cyan-700 rounded-sm overflow-hidden">
+                            <span
+                                className={`block h-full ${battery === null ? '' : battery < 20 ? 'bg-red-500' : battery < 40 ? 'bg-amber-400' : 'bg-green-500'}`}
+                                style={{ width: `${battery ?? 0}%` }}
+                            />
+                        </span>
+                        {battery === null ? '--' : `${battery}%`}
+                    </span>
+                )}
+                {elements.rssi && (
+                    <span className={chip} title={status ? `${status.rssi} dBm` : undefined}>
+                        RSSI
+                        <span className="flex items-end gap-px h-2.5">
+                            {[1, 2, 3, 4].map(b => (
+                                <span key={b} className={`w-1 ${b <= bars ? 'bg-cyan-300' : 'bg-gray-700'}`} style={{ height: `${b * 25}%` }} />
+                            ))}
+                        </span>
+                        {status ? status.rssi : '--'}
+                    </span>
+                )}
+                {elements.latency && (
+                    <span className={`${chip} ${LEVEL_TEXT[level]}`}>
+                        RTT {rtt !== null ? `${rtt}ms` : '--'}{quality && quality.lossPct > 0 ? ` ${quality.lossPct}% LOSS` : ''}
+                    </span>
+                )}
+            </div>
+
+            {elements.servos && (
+                <div className={`absolute flex gap-1 ${LAYOUTS[layout].servos}`}>
+                    {(Object.keys(servos) as (keyof ServoPositions)[]).map(target => (
+                        <span key={target} className={`${chip} uppercase ${servos[target] ? 'text-amber-300' : 'text-gray-400'}`}>
+                            {target} {servos[target] ? 'OPEN' : 'SHUT'}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { ConnectionState, RobotLinkView, RobotProfile } from '../types';
+import { VideoFeed } from './VideoFeed';
+import { SimulatorView } from './SimulatorView';
+import { hasSimulatorView } from '../services/simulator';
+import { FrameSource } from '../services/frameCapture';
+import { MjpegStream } from '../services/mjpegStream';
+import { Crosshair, RotateCcw, ShieldAlert } from 'lucide-react';
+
+interface Props {
+    profiles: RobotProfile[];
+    views: Record<string, RobotLinkView>;
+    focusedId: string;
+    groupIds: string[];
+    onFocus: (id: string) => void;
+    onToggleGroup: (id: string) => void;
+    onResume: (id: string) => void;
+    onSetIframe: (id: string, useIframe: boolean) => void;
+    onSetImgFallback: (id: string, useImgFallback: boolean) => void;
+    sourceRef?: React.Ref<FrameSource>;       // Attached to the focused tile only
+    onSignalChange?: (ok: boolean) => void;
+    onStream?: (stream: MjpegStream | null) => void;
+    onWarning?: (message: string) => void;
+}
+
+const stateDot = (view: RobotLinkView) => {
+    if (view.watchdogTrip) return 'bg-amber-500 animate-pulse';
+    switch (view.state) {
+        case ConnectionState.CONNECTED: return 'bg-green-500';
+        case ConnectionState.CONNECTING:
+        case ConnectionState.RECONNECTING: return 'bg-yellow-500 animate-pulse';
+        default: return 'bg-red-500';
+    }
+};
+
+// One video tile per linked rover, for driving several side by side
+export const FleetGrid: React.FC<Props> = ({ profiles, views, focusedId, groupIds, onFocus, onToggleGroup, onResume, onSetIframe, onSetImgFallback, sourceRef, onSignalChange, onStream, onWarning }) => {
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {profiles.map(profile => {
+                const view = views[profile.id];
+                if (!view) return null;
+                const focused = profile.id === focusedId;
+                const lastLog = view.logs[view.logs.length - 1];
+                return (
+                    <div
+                        key={profile.id}
+                        className={`bg-gray-900 rounded-lg border-2 overflow-hidden flex flex-col ${focused ? 'border-cyan-500' : 'border-gray-800'}`}
+                    >
+                        <div className="flex items-center gap-2 px-2 py-1.5 font-mono text-[10px]">
+                            <span className={`w-2 h-2 rounded-full shrink-0 ${stateDot(view)}`} />
+                            <span className="font-bold text-gray-200 truncate flex-1">{profile.name}</span>
+                            {view.quality?.avgRttMs != null && <span className="text-gray-500">{view.quality.avgRttMs}ms</span>}
+                            <label className="flex items-center gap-1 text-gray-400 cursor-pointer" title="Include in GROUP target">
+                                <input type="checkbox" checked={groupIds.includes(profile.id)} onChange={() => onToggleGroup(profile.id)} className="accent-orange-500" />
+                                GRP
+                            </label>
+                            <button
+                                onClick={() => onFocus(profile.id)}
+                                disabled={focused}
+                                title="Focus this rover"
+                                className={`p-1 rounded ${focused ? 'text-cyan-400' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800'}`}
+                            >
+                                <Crosshair size={12} />
+                            </button>
+                        </div>
+                        {hasSimulatorView(profile) ? (
+                            <SimulatorView address={profile.robotIp} />
+                        ) : (
+                            <VideoFeed
+                                config={profile}
+                                useIframe={profile.useIframe}
+                                setUseIframe={(val) => onSetIframe(profile.id, val)}
+                                useImgFallback={profile.useImgFallback}
+                                setUseImgFallback={(val) => onSetImgFallback(profile.id, val)}
+                                sourceRef={focused ? sourceRef : undefined}
+                                onSignalChange={focused ? onSignalChange : undefined}
+                                onStream={focused ? onStream : undefined}
+                                onWarning={onWarning}
+                            />
+                        )}
+                        {view.watchdogTrip && (
+                            <div className="flex items-center gap-2 px-2 py-1 bg-red-950/60 font-mono text-[10px] text-red-300">
+                                <ShieldAlert size={12} className="shrink-0" />
+                                <span className="flex-1 truncate">{view.watchdogTrip}</span>
+                                <button onClick={() => onResume(profile.id)} className="flex items-center gap-1 px-2 py-0.5 rounded border border-red-700 hover:bg-red-900 font-bold">
+                                    <RotateCcw size={10} /> RESUME
+                                </button>
+                            </div>
+                        )}
+                        <div className="px-2 py-1 font-mono text-[10px] text-gray-500 truncate border-t border-gray-800">
+                            {lastLog ? `${lastLog.source}: ${lastLog.message}` : 'No messages yet'}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
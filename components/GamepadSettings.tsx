@@ -0,0 +1,106 @@
+import React from 'react';
+import { Emote, GamepadAction, GamepadMapping } from '../types';
+import { BUTTON_NAMES, DEFAULT_GAMEPAD_MAPPING, sameAction, findButton, unbindAction } from '../services/gamepad';
+import { Gamepad2, RotateCcw, X } from 'lucide-react';
+
+interface Props {
+    mapping: GamepadMapping;
+    onChange: (mapping: GamepadMapping) => void;
+    padName: string | null;
+    bindingAction: GamepadAction | null;
+    onStartBinding: (action: GamepadAction | null) => void;
+    onClose: () => void;
+}
+
+const ACTIONS: { label: string, action: GamepadAction }[] = [
+    { label: 'Happy', action: { type: 'emote', id: Emote.HAPPY } },
+    { label: 'Sad', action: { type: 'emote', id: Emote.SAD } },
+    { label: 'Action', action: { type: 'emote', id: Emote.ACTION } },
+    { label: 'Love', action: { type: 'emote', id: Emote.LOVE } },
+    { label: 'Alert', action: { type: 'emote', id: Emote.ALERT } },
+    { label: 'Sleep', action: { type: 'emote', id: Emote.SLEEP } },
+    { label: 'Top', action: { type: 'servo', target: 'top' } },
+    { label: 'Head', action: { type: 'servo', target: 'head' } },
+    { label: 'Skirt', action: { type: 'servo', target: 'skirt' } }
+];
+
+const AXIS_OPTIONS = [0, 1, 2, 3];
+const AXIS_NAMES = ['L-STICK X', 'L-STICK Y', 'R-STICK X', 'R-STICK Y'];
+
+export const GamepadSettings: React.FC<Props> = ({ mapping, onChange, padName, bindingAction, onStartBinding, onClose }) => {
+    const selectClass = "bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300 outline-none text-[10px]";
+
+    return (
+        <div className="w-full bg-gray-950 border border-gray-800 rounded-lg p-3 mb-6 flex flex-col gap-3 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-xs font-bold text-gray-300 uppercase">
+                    <Gamepad2 size={14} className={padName ? 'text-green-500' : 'text-gray-600'} /> Gamepad Mapping
+                </span>
+                <div className="flex gap-1">
+                    <button onClick={() => onChange({ ...DEFAULT_GAMEPAD_MAPPING, enabled: mapping.enabled })} title="Reset to defaults" className="p-1 rounded hover:bg-gray-800 text-gray-500">
+                        <RotateCcw size={12} />
+                    </button>
+                    <button onClick={onClose} className="p-1 rounded hover:bg-gray-800 text-gray-500">
+                        <X size={12} />
+                    </button>
+                </div>
+            </div>
+
+            <span className="truncate">{padName ? `PAD: ${padName}` : 'No gamepad detected. Press any button on the controller.'}</span>
+
+            {/* Axes */}
+            <div className="grid grid-cols-2 gap-2">
+                <label className="flex flex-col gap-1">
+                    THROTTLE AXIS
+                    <div className="flex gap-1">
+                        <select value={mapping.throttleAxis} onChange={e => onChange({ ...mapping, throttleAxis: Number(e.target.value) })} className={`${selectClass} flex-1`}>
+                            {AXIS_OPTIONS.map(a => <option key={a} value={a}>{AXIS_NAMES[a]}</option>)}
+                        </select>
+                        <button onClick={() => onChange({ ...mapping, invertThrottle: !mapping.invertThrottle })} className={`px-2 rounded border ${mapping.invertThrottle ? 'border-cyan-700 text-cyan-400' : 'border-gray-700'}`}>INV</button>
+                    </div>
+                </label>
+                <label className="flex flex-col gap-1">
+                    STEER AXIS
+                    <div className="flex gap-1">
+                        <select value={mapping.steerAxis} onChange={e => onChange({ ...mapping, steerAxis: Number(e.target.value) })} className={`${selectClass} flex-1`}>
+                            {AXIS_OPTIONS.map(a => <option key={a} value={a}>{AXIS_NAMES[a]}</option>)}
+                        </select>
+                        <button onClick={() => onChange({ ...mapping, invertSteer: !mapping.invertSteer })} className={`px-2 rounded border ${mapping.invertSteer ? 'border-cyan-700 text-cyan-400' : 'border-gray-700'}`}>INV</button>
+                    </div>
+                </label>
+            </div>
+
+            {/* Response */}
+            <label className="flex flex-col gap-1">
+                <span className="flex justify-between"><span>DEADZONE</span><span>{Math.round(mapping.deadzone * 100)}%</span></span>
+                <input type="range" min="0" max="0.5" step="0.01" value={mapping.deadzone} onChange={e => onChange({ ...mapping, deadzone: Number(e.target.value) })} className="w-full accent-cyan-500" />
+            </label>
+            <label className="flex flex-col gap-1">
+                <span className="flex justify-between"><span>RESPONSE CURVE</span><span>{mapping.curve === 1 ? 'LINEAR' : `x^${mapping.curve.toFixed(1)}`}</span></span>
+                <input type="range" min="1" max="3" step="0.1" value={mapping.curve} onChange={e => onChange({ ...mapping, curve: Number(e.target.value) })} className="w-full accent-cyan-500" />
+            </label>
+
+            {/* Button Bindings */}
+            <div className="grid grid-cols-3 gap-1">
+                {ACTIONS.map(({ label, action }) => {
+                    const button = findButton(mapping, action);
+                    const binding = sameAction(bindingAction, action);
+                    return (
+                        <button
+                            key={label}
+                            onClick={() => onStartBinding(binding ? null : action)}
+                            onContextMenu={(e) => { e.preventDefault(); onChange(unbindAction(mapping, action)); }}
+                            title="Click, then press a controller button. Right-click to clear."
+                            className={`flex justify-between items-center px-2 py-1 rounded border transition-colors ${
+                                binding ? 'border-yellow-600 text-yellow-400 animate-pulse' : 'border-gray-800 hover:border-gray-600'
+                            }`}
+                        >
+                            <span>{label.toUpperCase()}</span>
+                            <span className="text-gray-300">{binding ? '...' : button !== null ? (BUTTON_NAMES[button] ?? `B${button}`) : '--'}</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { HudElement, HudLayout, HudSettings as HudSettingsValue } from '../types';
+import { HUD_PRESETS } from '../services/hud';
+import { Crosshair, Monitor, Smartphone, X } from 'lucide-react';
+
+interface Props {
+    settings: HudSettingsValue;
+    onChange: (settings: HudSettingsValue) => void;
+}
+
+const ELEMENTS: { label: string, element: HudElement }[] = [
+    { label: 'Vector', element: 'vector' },
+    { label: 'Speed limit', element: 'speedLimit' },
+    { label: 'Battery', element: 'battery' },
+    { label: 'RSSI', element: 'rssi' },
+    { label: 'Servos', element: 'servos' },
+    { label: 'Latency', element: 'latency' },
+    { label: 'Crosshair', element: 'crosshair' },
+    { label: 'Drive path', element: 'drivePath' }
+];
+
+const PRESETS: { label: string, layout: HudLayout, icon: React.ReactNode }[] = [
+    { label: 'DESKTOP', layout: 'desktop', icon: <Monitor size={12} /> },
+    { label: 'MOBILE', layout: 'mobile', icon: <Smartphone size={12} /> }
+];
+
+export const HudSettings: React.FC<Props> = ({ settings, onChange }) => {
+    const [open, setOpen] = useState(false);
+
+    const toggle = (element: HudElement) => onChange({ ...settings, elements: { ...settings.elements, [element]: !settings.elements[element] } });
+
+    return (
+        <div className="w-full max-w-[640px] flex flex-col gap-2 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center justify-end gap-2">
+                <button
+                    onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+                    className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${settings.enabled ? 'border-cyan-700 text-cyan-400' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                >
+                    <Crosshair size={12} /> HUD {settings.enabled ? 'ON' : 'OFF'}
+                </button>
+                <button
+                    onClick={() => setOpen(!open)}
+                    className={`px-2 py-1 rounded border transition-colors ${open ? 'border-cyan-700 text-cyan-400' : 'border-gray-700 text-gray-500 hover:border-gray-500'}`}
+                >
+                    LAYOUT
+                </button>
+            </div>
+
+            {open && (
+                <div className="bg-gray-950 border border-gray-800 rounded-lg p-3 flex flex-col gap-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-bold text-gray-300 uppercase">HUD Layout</span>
+                        <button onClick={() => setOpen(false)} className="p-1 rounded hover:bg-gray-800 text-gray-500">
+                            <X size={12} />
+                        </button>
+                    </div>
+
+                    {/* Presets place the elements and pick a sensible set for the screen */}
+                    <div className="flex gap-2">
+                        {PRESETS.map(({ label, layout, icon }) => (
+                            <button
+                                key={layout}
+                                onClick={() => onChange({ ...settings, layout, elements: HUD_PRESETS[layout] })}
+                                className={`flex-1 flex items-center justify-center gap-1 py-1 rounded border ${settings.layout === layout ? 'border-cyan-700 text-cyan-400' : 'border-gray-700 hover:border-gray-500'}`}
+                            >
+                                {icon} {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-1">
+                        {ELEMENTS.map(({ label, element }) => (
+                            <label key={element} className="flex items-center gap-2 cursor-pointer uppercase">
+                                <input type="checkbox" checked={settings.elements[element]} onChange={() => toggle(element)} className="accent-cyan-500" />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { LatencyThresholds, LinkLevel, LinkQuality as LinkQualityStats } from '../types';
+import { Activity } from 'lucide-react';
+
+interface Props {
+    quality: LinkQualityStats | null;
+    level: LinkLevel;
+    thresholds: LatencyThresholds;
+    onThresholdsChange: (thresholds: LatencyThresholds) => void;
+    compact?: boolean;
+}
+
+const LEVEL_TEXT: Record<LinkLevel, string> = {
+    unknown: 'text-gray-500',
+    good: 'text-green-400',
+    warn: 'text-yellow-400',
+    critical: 'text-red-400'
+};
+
+const LEVEL_BORDER: Record<LinkLevel, string> = {
+    unknown: 'border-gray-700',
+    good: 'border-green-900',
+    warn: 'border-yellow-700',
+    critical: 'border-red-700 animate-pulse'
+};
+
+export const LinkQuality: React.FC<Props> = ({ quality, level, thresholds, onThresholdsChange, compact = false }) => {
+    const [editing, setEditing] = useState(false);
+    const rtt = quality?.avgRttMs ?? null;
+
+    if (compact) {
+        if (!quality) return null;
+        return (
+            <span className={`font-mono text-[10px] drop-shadow ${LEVEL_TEXT[level]}`}>
+                {rtt !== null ? `${rtt}ms` : '--'}{quality.lossPct > 0 ? ` ${quality.lossPct}%` : ''}
+            </span>
+        );
+    }
+
+    const setWarn = (warnMs: number) => onThresholdsChange({ warnMs, criticalMs: Math.max(thresholds.criticalMs, warnMs + 10) });
+    const setCritical = (criticalMs: number) => onThresholdsChange({ criticalMs, warnMs: Math.min(thresholds.warnMs, criticalMs - 10) });
+    const inputClass = "w-16 bg-black border border-gray-700 rounded px-1 py-1 text-gray-200 outline-none focus:border-cyan-500";
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setEditing(!editing)}
+                title={quality ? `Last ${quality.samples} pings. Click to set latency warnings.` : 'Click to set latency warnings'}
+                className={`h-full px-2 py-2 rounded border bg-black/40 font-mono text-[10px] flex items-center gap-1 whitespace-nowrap ${LEVEL_TEXT[level]} ${LEVEL_BORDER[level]}`}
+            >
+                <Activity size={12} />
+                {quality && rtt !== null ? `${rtt}ms ±${quality.jitterMs}` : '--'}
+                {quality && quality.lossPct > 0 && <span className="text-red-400">{quality.lossPct}%</span>}
+            </button>
+            {editing && (
+                <div className="absolute right-0 top-full mt-1 z-30 bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-2xl flex flex-col gap-2 font-mono text-[10px] text-gray-400">
+                    <span className="text-gray-300 font-bold">LATENCY WARNINGS</span>
+                    <label className="flex items-center justify-between gap-3">
+                        <span className="text-yellow-400">WARN ≥</span>
+                        <input type="number" min="10" step="10" value={thresholds.warnMs} onChange={e => setWarn(Math.max(10, Number(e.target.value)))} className={inputClass} />
+                    </label>
+                    <label className="flex items-center justify-between gap-3">
+                        <span className="text-red-400">CRITICAL ≥</span>
+                        <input type="number" min="20" step="10" value={thresholds.criticalMs} onChange={e => setCritical(Math.max(20, Number(e.target.value)))} className={inputClass} />
+                    </label>
+                    {quality && (
+                        <span className="border-t border-gray-800 pt-2">
+                            LAST {quality.rttMs ?? '--'}ms · AVG {rtt ?? '--'}ms · JITTER {quality.jitterMs}ms · LOSS {quality.lossPct}%
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { LinkTraffic as LinkTrafficStats } from '../types';
+import { ArrowDown, ArrowUp, Binary } from 'lucide-react';
+
+interface Props {
+    traffic: LinkTrafficStats | null;
+    binaryMotor: boolean;
+    onBinaryMotorChange: (enabled: boolean) => void;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+export const LinkTraffic: React.FC<Props> = ({ traffic, binaryMotor, onBinaryMotorChange }) => {
+    const avgMotorBytes = traffic && traffic.motorFrames > 0 ? Math.round(traffic.motorBytes / traffic.motorFrames) : null;
+    // Preference is on but the robot never advertised the feature
+    const fellBack = traffic !== null && binaryMotor && traffic.motorEncoding === 'json';
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 flex flex-col gap-1 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center gap-3">
+                <span className="flex items-center gap-1"><ArrowUp size={12} className="text-green-500" />{traffic ? formatBytes(traffic.txBytes) : '--'}</span>
+                <span className="flex items-center gap-1"><ArrowDown size={12} className="text-yellow-500" />{traffic ? formatBytes(traffic.rxBytes) : '--'}</span>
+                <span className="flex-1 text-right">
+                    {traffic ? `${traffic.motorFrames} MOVE · ${avgMotorBytes ?? '--'} B/frame` : 'NO LINK'}
+                </span>
+                <button
+                    onClick={() => onBinaryMotorChange(!binaryMotor)}
+                    title="Send move commands as compact binary frames when the robot supports it"
+                    className={`flex items-center gap-1 px-2 py-1 rounded border font-bold transition-colors ${
+                        binaryMotor ? 'bg-cyan-900/30 border-cyan-700 text-cyan-400' : 'border-gray-700 text-gray-500 hover:border-gray-500'
+                    }`}
+                >
+                    <Binary size={12} /> {binaryMotor ? 'BINARY' : 'JSON'}
+                </button>
+            </div>
+            {fellBack && <span className="text-yellow-500">Robot firmware has no binary motor frames. Using JSON.</span>}
+        </div>
+    );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Emote, Macro, MacroStep, RobotCommand, ServoCommand, ServoPositions } from '../types';
+import { RESERVED_KEYS, macroDuration, validateMacro } from '../services/macros';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+
+interface Props {
+    macro: Macro;
+    servos: ServoPositions;   // Current positions, used to warn about interlock refusals
+    takenHotkeys: string[];   // Keys already bound to other macros
+    onSave: (macro: Macro) => void;
+    onCancel: () => void;
+}
+
+const EMOTES: { label: string, id: Emote }[] = [
+    { label: 'Happy', id: Emote.HAPPY },
+    { label: 'Sad', id: Emote.SAD },
+    { label: 'Action', id: Emote.ACTION },
+    { label: 'Love', id: Emote.LOVE },
+    { label: 'Alert', id: Emote.ALERT },
+    { label: 'Sleep', id: Emote.SLEEP }
+];
+
+const SERVO_TARGETS: ServoCommand['target'][] = ['top', 'head', 'skirt'];
+
+const DEFAULT_COMMANDS: Record<RobotCommand['cmd'], RobotCommand> = {
+    move: { cmd: 'move', throttle: 150, steer: 0 },
+    servo: { cmd: 'servo', target: 'top', state: 'open' },
+    emote: { cmd: 'emote', id: Emote.HAPPY }
+};
+
+const clampAxis = (value: number) => Math.max(-255, Math.min(255, Math.round(value) || 0));
+
+export const MacroEditor: React.FC<Props> = ({ macro, servos, takenHotkeys, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<Macro>(macro);
+    const problem = validateMacro(draft.steps, servos);
+    const hotkeyProblem = draft.hotkey && (RESERVED_KEYS.includes(draft.hotkey) ? 'Key is used for driving'
+        : takenHotkeys.includes(draft.hotkey) ? 'Key is bound to another macro' : null);
+
+    const setStep = (index: number, step: MacroStep) => setDraft(prev => ({ ...prev, steps: prev.steps.map((s, i) => i === index ? step : s) }));
+    const removeStep = (index: number) => setDraft(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+    const moveStep = (index: number, by: number) => setDraft(prev => {
+        const steps = [...prev.steps];
+        const [step] = steps.splice(index, 1);
+        steps.splice(Math.max(0, Math.min(steps.length, index + by)), 0, step);
+        return { ...prev, steps };
+    });
+    const addStep = () => setDraft(prev => ({ ...prev, steps: [...prev.steps, { delayMs: 500, command: DEFAULT_COMMANDS.move }] }));
+
+    const inputClass = "bg-black border border-gray-700 rounded px-1 py-1 text-gray-200 outline-none focus:border-cyan-500";
+
+    const renderParams = (step: MacroStep, index: number) => {
+        const { command } = step;
+        switch (command.cmd) {
+            case 'move':
+                return (
+                    <>
+                        <input type="number" min="-255" max="255" value={command.throttle} title="Throttle" onChange={e => setStep(index, { ...step, command: { ...command, throttle: clampAxis(Number(e.target.value)) } })} className={`${inputClass} w-14`} />
+                        <input type="number" min="-255" max="255" value={command.steer} title="Steer" onChange={e => setStep(index, { ...step, command: { ...command, steer: clampAxis(Number(e.target.value)) } })} className={`${inputClass} w-14`} />
+                    </>
+                );
+            case 'servo':
+                return (
+                    <>
+                        <select value={command.target} onChange={e => setStep(index, { ...step, command: { ...command, target: e.target.value as ServoCommand['target'] } })} className={inputClass}>
+                            {SERVO_TARGETS.map(t => <option key={t} value={t}>{t.toUpperCase()}</option>)}
+                        </select>
+                        <select value={command.state} onChange={e => setStep(index, { ...step, command: { ...command, state: e.target.value as ServoCommand['state'] } })} className={inputClass}>
+                            <option value="open">OPEN</option>
+                            <option value="close">CLOSE</option>
+                        </select>
+                    </>
+                );
+            case 'emote':
+                return (
+                    <select value={command.id} onChange={e => setStep(index, { ...step, command: { cmd: 'emote', id: Number(e.target.value) } })} className={inputClass}>
+                        {EMOTES.map(({ label, id }) => <option key={id} value={id}>{label.toUpperCase()}</option>)}
+                    </select>
+                );
+        }
+    };
+
+    return (
+        <div className="bg-gray-950 border border-gray-800 rounded-lg p-3 flex flex-col gap-3 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-bold text-gray-300 uppercase">Edit Macro</span>
+                <button onClick={onCancel} className="p-1 rounded hover:bg-gray-800 text-gray-500">
+                    <X size={12} />
+                </button>
+            </div>
+
+            <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Macro name" className={`${inputClass} text-xs`} />
+
+            <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-1">
+                    HOTKEY
+                    <input
+                        value={draft.hotkey ?? ''}
+                        onKeyDown={e => {
+                            // Capture the key itself rather than typing it
+                            e.preventDefault();
+                            if (e.key === 'Backspace' || e.key === 'Delete') setDraft({ ...draft, hotkey: null });
+                            else if (e.key.length === 1) setDraft({ ...draft, hotkey: e.key.toLowerCase() });
+                        }}
+                        onChange={() => {}}
+                        placeholder="none"
+                        className={`${inputClass} w-12 text-center uppercase`}
+                    />
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={draft.loop} onChange={e => setDraft({ ...draft, loop: e.target.checked })} className="accent-cyan-500" /> LOOP
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={draft.mobileButton} onChange={e => setDraft({ ...draft, mobileButton: e.target.checked })} className="accent-cyan-500" /> MOBILE BUTTON
+                </label>
+            </div>
+            {hotkeyProblem && <span className="text-yellow-500">{hotkeyProblem}</span>}
+
+            {/* Steps: wait, then send */}
+            <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+                <div className="grid grid-cols-[2rem_4rem_4.5rem_1fr_auto] gap-1 text-gray-600">
+                    <span>#</span><span>WAIT MS</span><span>COMMAND</span><span>PARAMS</span><span />
+                </div>
+                {draft.steps.map((step, i) => (
+                    <div key={i} className="grid grid-cols-[2rem_4rem_4.5rem_1fr_auto] gap-1 items-center">
+                        <span className="text-gray-600">{i + 1}</span>
+                        <input type="number" min="0" step="50" value={step.delayMs} onChange={e => setStep(i, { ...step, delayMs: Math.max(0, Math.round(Number(e.target.value)) || 0) })} className={inputClass} />
+                        <select value={step.command.cmd} onChange={e => setStep(i, { ...step, command: DEFAULT_COMMANDS[e.target.value as RobotCommand['cmd']] })} className={inputClass}>
+                            <option value="move">MOVE</option>
+                            <option value="servo">SERVO</option>
+                            <option value="emote">EMOTE</option>
+                        </select>
+                        <div className="flex gap-1">{renderParams(step, i)}</div>
+                        <div className="flex">
+                            <button onClick={() => moveStep(i, -1)} disabled={i === 0} className="p-1 text-gray-500 hover:text-gray-300 disabled:opacity-30"><ArrowUp size={12} /></button>
+                            <button onClick={() => moveStep(i, 1)} disabled={i === draft.steps.length - 1} className="p-1 text-gray-500 hover:text-gray-300 disabled:opacity-30"><ArrowDown size={12} /></button>
+                            <button onClick={() => removeStep(i)} className="p-1 text-gray-500 hover:text-red-400"><Trash2 size={12} /></button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <button onClick={addStep} className="flex items-center justify-center gap-1 py-1 rounded border border-dashed border-gray-700 hover:border-gray-500">
+                <Plus size={12} /> ADD STEP
+            </button>
+
+            {/* Only a warning: the servos may be elsewhere by the time the macro runs, and playback checks again */}
+            {problem && <span className="text-yellow-500">From the current servo positions: {problem}</span>}
+
+            <div className="flex items-center justify-between">
+                <span>{draft.steps.length} STEPS · {(macroDuration(draft) / 1000).toFixed(1)}s</span>
+                <button
+                    onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Untitled macro', hotkey: hotkeyProblem ? null : draft.hotkey })}
+                    className="px-3 py-1 rounded border border-cyan-800 text-cyan-400 hover:bg-cyan-900/30 font-bold"
+                >
+                    SAVE
+                </button>
+            </div>
+        </div>
+    );
+};
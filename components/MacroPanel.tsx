@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Macro, MacroPlayback, MacroStep, ServoPositions } from '../types';
+import { createMacro, macroDuration } from '../services/macros';
+import { MacroEditor } from './MacroEditor';
+import { Circle, ListVideo, Pause, Pencil, Play, Plus, Repeat, Square, Trash2 } from 'lucide-react';
+
+interface Props {
+    macros: Macro[];
+    onChange: (macros: Macro[]) => void;
+    playback: MacroPlayback | null;
+    recordingSteps: number | null; // Steps captured so far, null when not recording
+    onStartRecording: () => void;
+    onStopRecording: () => MacroStep[];
+    onPlay: (macro: Macro) => void;
+    onPause: () => void;
+    onResume: () => void;
+    onAbort: () => void;
+    servos: ServoPositions;
+    compact?: boolean;
+}
+
+export const MacroPanel: React.FC<Props> = ({ macros, onChange, playback, recordingSteps, onStartRecording, onStopRecording, onPlay, onPause, onResume, onAbort, servos, compact = false }) => {
+    const [editing, setEditing] = useState<Macro | null>(null);
+    const playing = playback ? macros.find(m => m.id === playback.macroId) : undefined;
+
+    const playbackControls = playback && (
+        <>
+            <button onClick={playback.paused ? onResume : onPause} className="p-1 rounded text-cyan-400 hover:bg-gray-800">
+                {playback.paused ? <Play size={12} /> : <Pause size={12} />}
+            </button>
+            <button onClick={onAbort} className="p-1 rounded text-red-400 hover:bg-gray-800"><Square size={12} /></button>
+        </>
+    );
+
+    if (compact) {
+        const buttons = macros.filter(m => m.mobileButton);
+        if (buttons.length === 0 && !playback) return null;
+        return (
+            <div className="pointer-events-auto flex items-center gap-1 bg-black/60 border border-white/10 rounded-full px-1 py-0.5 font-mono text-[10px] text-gray-300 backdrop-blur-md">
+                {playback ? (
+                    <>
+                        <span className="px-1 text-cyan-400 truncate max-w-[8rem]">{playing?.name} {playback.step}/{playing?.steps.length}</span>
+                        {playbackControls}
+                    </>
+                ) : buttons.map(m => (
+                    <button key={m.id} onClick={() => onPlay(m)} className="px-2 py-1 rounded-full bg-gray-800 active:bg-cyan-800 truncate max-w-[6rem]">
+                        {m.name}
+                    </button>
+                ))}
+            </div>
+        );
+    }
+
+    const save = (macro: Macro) => {
+        onChange(macros.some(m => m.id === macro.id) ? macros.map(m => m.id === macro.id ? macro : m) : [...macros, macro]);
+        setEditing(null);
+    };
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 flex flex-col gap-2 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center gap-2">
+                <ListVideo size={14} className="text-gray-500" />
+                <span className="flex-1 text-xs font-bold text-gray-300 uppercase">Macros</span>
+                {recordingSteps !== null ? (
+                    <button
+                        onClick={() => setEditing(createMacro('Recorded macro', onStopRecording()))}
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-red-800 text-red-400 hover:bg-red-900/30 font-bold"
+                    >
+                        <Square size={12} /> STOP ({recordingSteps})
+                    </button>
+                ) : (
+                    <button
+                        onClick={onStartRecording}
+                        disabled={!!editing}
+                        title="Record your manual driving as a macro"
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 hover:border-red-700 hover:text-red-400 font-bold disabled:opacity-40"
+                    >
+                        <Circle size={12} /> REC
+                    </button>
+                )}
+                <button
+                    onClick={() => setEditing(createMacro('New macro'))}
+                    disabled={!!editing || recordingSteps !== null}
+                    className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 hover:border-gray-500 font-bold disabled:opacity-40"
+                >
+                    <Plus size={12} /> NEW
+                </button>
+            </div>
+
+            {recordingSteps !== null && (
+                <span className="text-red-400 animate-pulse">Recording: drive, toggle servos and send emotes, then press STOP.</span>
+            )}
+
+            {macros.length === 0 && !editing && recordingSteps === null && (
+                <span className="text-gray-600">No macros yet. Record one from live driving or build one step by step.</span>
+            )}
+
+            {macros.map(m => {
+                const active = playback?.macroId === m.id;
+                return (
+                    <div key={m.id} className={`flex items-center gap-2 px-2 py-1 rounded border ${active ? 'border-cyan-800 bg-cyan-950/30' : 'border-gray-800'}`}>
+                        <span className="flex-1 truncate text-gray-300">{m.name}</span>
+                        {m.loop && <Repeat size={12} className="text-gray-500" />}
+                        {m.hotkey && <span className="px-1 rounded border border-gray-700 uppercase">{m.hotkey}</span>}
+                        <span className="text-gray-600">
+                            {active ? `STEP ${playback!.step}/${m.steps.length}${m.loop ? ` · LOOP ${playback!.iteration}` : ''}` : `${m.steps.length} · ${(macroDuration(m) / 1000).toFixed(1)}s`}
+                        </span>
+                        {active ? playbackControls : (
+                            <>
+                                <button onClick={() => onPlay(m)} disabled={!!playback} className="p-1 rounded text-cyan-400 hover:bg-gray-800 disabled:opacity-30"><Play size={12} /></button>
+                                <button onClick={() => setEditing(m)} disabled={!!editing} className="p-1 rounded hover:bg-gray-800 disabled:opacity-30"><Pencil size={12} /></button>
+                                <button
+                                    onClick={() => window.confirm(`Delete macro "${m.name}"?`) && onChange(macros.filter(x => x.id !== m.id))}
+                                    className="p-1 rounded hover:bg-gray-800 hover:text-red-400"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+
+            {editing && (
+                <MacroEditor
+                    key={editing.id}
+                    macro={editing}
+                    servos={servos}
+                    takenHotkeys={macros.filter(m => m.id !== editing.id && m.hotkey).map(m => m.hotkey!)}
+                    onSave={save}
+                    onCancel={() => setEditing(null)}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,298 @@
+import React, { useRef, useState } from 'react';
+import { Emote, Mission, MissionRun, MissionStep, MissionStepKind, ServoCommand, ServoPositions } from '../types';
+import { MAX_STEP_MS, MIN_MOVE_MS, MISSION_STEP_KINDS, createMission, createMissionStep, describeStep, missionDuration, validateMission } from '../services/missions';
+import { ArrowDown, ArrowUp, Bug, Check, Download, FastForward, FolderOpen, Navigation, PanelTop, Pause, Play, Plus, RotateCcw, Route, ScanEye, Smile, Square, StepForward, Timer, Trash2, X } from 'lucide-react';
+
+interface Props {
+    missions: Mission[];
+    onChange: (missions: Mission[]) => void;
+    run: MissionRun | null;
+    servos: ServoPositions;     // Current positions, used to warn about interlock refusals
+    onStart: (mission: Mission, singleStep: boolean) => void;
+    onStep: () => void;
+    onPause: () => void;
+    onResume: () => void;
+    onAbort: () => void;
+    onDismiss: () => void;
+    onExport: (mission: Mission) => void;
+    onImport: (file: File) => Promise<Mission | null>;
+    compact?: boolean;
+}
+
+const KIND_ICONS: Record<MissionStepKind, React.ElementType> = {
+    drive: Navigation,
+    pivot: RotateCcw,
+    servo: PanelTop,
+    wait: Timer,
+    emote: Smile,
+    analyze: ScanEye
+};
+
+const EMOTES: { label: string, id: Emote }[] = [
+    { label: 'Happy', id: Emote.HAPPY },
+    { label: 'Sad', id: Emote.SAD },
+    { label: 'Action', id: Emote.ACTION },
+    { label: 'Love', id: Emote.LOVE },
+    { label: 'Alert', id: Emote.ALERT },
+    { label: 'Sleep', id: Emote.SLEEP }
+];
+
+const SERVO_TARGETS: ServoCommand['target'][] = ['top', 'head', 'skirt'];
+
+const toInt = (value: string, min: number, max: number) => Math.max(min, Math.min(max, Math.round(Number(value)) || 0));
+
+export const MissionPlanner: React.FC<Props> = ({ missions, onChange, run, servos, onStart, onStep, onPause, onResume, onAbort, onDismiss, onExport, onImport, compact = false }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(missions[0]?.id ?? null);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const active = run?.state === 'running' || run?.state === 'paused';
+    const runMission = run ? missions.find(m => m.id === run.missionId) : undefined;
+
+    const runControls = run && active && (
+        <>
+            {run.state === 'paused' ? (
+                <>
+                    <button onClick={onStep} title="Run the next step only" className="p-1 rounded text-cyan-400 hover:bg-gray-800"><StepForward size={12} /></button>
+                    <button onClick={onResume} title="Continue to the end or the next breakpoint" className="p-1 rounded text-cyan-400 hover:bg-gray-800"><FastForward size={12} /></button>
+                </>
+            ) : (
+                <button onClick={onPause} disabled={run.singleStep} title="Pause after the current step" className="p-1 rounded text-cyan-400 hover:bg-gray-800 disabled:opacity-30"><Pause size={12} /></button>
+            )}
+            <button onClick={onAbort} title="Abort and stop the robot" className="p-1 rounded text-red-400 hover:bg-gray-800"><Square size={12} /></button>
+        </>
+    );
+
+    if (compact) {
+        if (!run || !active) return null;
+        return (
+            <div className="pointer-events-auto flex items-center gap-1 bg-black/60 border border-white/10 rounded-full px-2 py-0.5 font-mono text-[10px] text-gray-300 backdrop-blur-md">
+                <Route size={10} className="text-cyan-400" />
+                <span className="truncate max-w-[10rem]">{runMission?.name} {run.step + 1}/{runMission?.steps.length}</span>
+                {runControls}
+            </div>
+        );
+    }
+
+    const mission = missions.find(m => m.id === selectedId) ?? missions[0];
+    const runningThis = !!mission && run?.missionId === mission.id;
+    // Steps cannot be edited under a run that is using them
+    const locked = runningThis && active;
+    const problem = mission ? validateMission(mission.steps, servos) : null;
+
+    const updateMission = (update: Partial<Mission>) => onChange(missions.map(m => m.id === mission.id ? { ...m, ...update } : m));
+    const setStep = (index: number, step: MissionStep) => updateMission({ steps: mission.steps.map((s, i) => i === index ? step : s) });
+    const moveStep = (index: number, by: number) => {
+        const steps = [...mission.steps];
+        const [step] = steps.splice(index, 1);
+        steps.splice(Math.max(0, Math.min(steps.length, index + by)), 0, step);
+        updateMission({ steps });
+    };
+
+    const addMission = () => {
+        const created = createMission(`Mission ${missions.length + 1}`);
+        onChange([...missions, created]);
+        setSelectedId(created.id);
+    };
+
+    const inputClass = "bg-black border border-gray-700 rounded px-1 py-0.5 text-gray-200 outline-none focus:border-cyan-500 disabled:opacity-50";
+
+    const renderParams = (step: MissionStep, index: number) => {
+        switch (step.kind) {
+            case 'drive':
+            case 'pivot':
+                return (
+                    <>
+                        <select
+                            value={step.direction}
+                            disabled={locked}
+                            onChange={e => setStep(index, { ...step, direction: e.target.value } as MissionStep)}
+                            className={inputClass}
+                        >
+                            {(step.kind === 'drive' ? ['forward', 'backward'] : ['left', 'right']).map(d => <option key={d} value={d}>{d.toUpperCase()}</option>)}
+                        </select>
+                        <label className="flex items-center gap-1">
+                            <input type="number" min={MIN_MOVE_MS} max={MAX_STEP_MS} step="100" value={step.durationMs} disabled={locked} onChange={e => setStep(index, { ...step, durationMs: toInt(e.target.value, MIN_MOVE_MS, MAX_STEP_MS) })} className={`${inputClass} w-16`} />MS
+                        </label>
+                        <label className="flex items-center gap-1">
+                            @<input type="number" min="0" max="255" step="10" value={step.speed} disabled={locked} onChange={e => setStep(index, { ...step, speed: toInt(e.target.value, 0, 255) })} className={`${inputClass} w-14`} />
+                        </label>
+                    </>
+                );
+            case 'servo':
+                return (
+                    <>
+                        <select value={step.state} disabled={locked} onChange={e => setStep(index, { ...step, state: e.target.value as ServoCommand['state'] })} className={inputClass}>
+                            <option value="open">OPEN</option>
+                            <option value="close">CLOSE</option>
+                        </select>
+                        <select value={step.target} disabled={locked} onChange={e => setStep(index, { ...step, target: e.target.value as ServoCommand['target'] })} className={inputClass}>
+                            {SERVO_TARGETS.map(t => <option key={t} value={t}>{t.toUpperCase()}</option>)}
+                        </select>
+                    </>
+                );
+            case 'wait':
+                return (
+                    <label className="flex items-center gap-1">
+                        <input type="number" min="0" max={MAX_STEP_MS} step="100" value={step.durationMs} disabled={locked} onChange={e => setStep(index, { ...step, durationMs: toInt(e.target.value, 0, MAX_STEP_MS) })} className={`${inputClass} w-16`} />MS
+                    </label>
+                );
+            case 'emote':
+                return (
+                    <select value={step.emote} disabled={locked} onChange={e => setStep(index, { ...step, emote: Number(e.target.value) })} className={inputClass}>
+                        {EMOTES.map(({ label, id }) => <option key={id} value={id}>{label.toUpperCase()}</option>)}
+                    </select>
+                );
+            case 'analyze':
+                return <span className="text-gray-600">Capture a frame and describe it</span>;
+        }
+    };
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 flex flex-col gap-2 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center gap-2">
+                <Route size={14} className="text-gray-500" />
+                <span className="text-xs font-bold text-gray-300 uppercase">Missions</span>
+                <select
+                    value={mission?.id ?? ''}
+                    onChange={e => setSelectedId(e.target.value)}
+                    disabled={missions.length === 0}
+                    className={`${inputClass} flex-1 min-w-0`}
+                >
+                    {missions.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) onImport(file).then(imported => imported && setSelectedId(imported.id));
+                        e.target.value = '';
+                    }}
+                />
+                <button onClick={() => fileRef.current?.click()} title="Import a mission from JSON" className="p-1 rounded hover:bg-gray-800"><FolderOpen size={12} /></button>
+                <button onClick={() => mission && onExport(mission)} disabled={!mission} title="Export as JSON" className="p-1 rounded hover:bg-gray-800 disabled:opacity-30"><Download size={12} /></button>
+                <button onClick={addMission} title="New mission" className="p-1 rounded hover:bg-gray-800"><Plus size={12} /></button>
+            </div>
+
+            {!mission && <span className="text-gray-600">No missions yet. Create one or import a JSON file.</span>}
+
+            {mission && (
+                <>
+                    <div className="flex items-center gap-2">
+                        <input value={mission.name} disabled={locked} onChange={e => updateMission({ name: e.target.value })} placeholder="Mission name" className={`${inputClass} flex-1 text-xs`} />
+                        <button
+                            onClick={() => window.confirm(`Delete mission "${mission.name}"?`) && onChange(missions.filter(m => m.id !== mission.id))}
+                            disabled={locked}
+                            className="p-1 rounded hover:bg-gray-800 hover:text-red-400 disabled:opacity-30"
+                        >
+                            <Trash2 size={12} />
+                        </button>
+                    </div>
+
+                    {/* Waypoint list: click a step number to toggle a breakpoint before it */}
+                    <div className="flex flex-col max-h-72 overflow-y-auto">
+                        {mission.steps.map((step, i) => {
+                            const Icon = KIND_ICONS[step.kind];
+                            const current = runningThis && run!.step === i && run!.state !== 'completed';
+                            const done = runningThis && (run!.state === 'completed' || i < run!.step);
+                            const failed = current && run!.state === 'aborted';
+                            return (
+                                <div key={step.id} className="flex gap-2">
+                                    <div className="flex flex-col items-center">
+                                        <button
+                                            onClick={() => setStep(i, { ...step, breakpoint: !step.breakpoint })}
+                                            disabled={locked}
+                                            title={step.breakpoint ? 'Remove breakpoint' : 'Pause before this step'}
+                                            className={`w-5 h-5 shrink-0 rounded-full border flex items-center justify-center font-bold ${
+                                                step.breakpoint ? 'border-red-500 bg-red-900/60 text-red-200'
+                                                    : failed ? 'border-red-500 text-red-400'
+                                                    : current ? 'border-cyan-400 bg-cyan-900/60 text-cyan-200'
+                                                    : done ? 'border-green-700 text-green-500'
+                                                    : 'border-gray-600 text-gray-400'
+                                            } ${current && run!.executing ? 'animate-pulse' : ''}`}
+                                        >
+                                            {done && !step.breakpoint ? <Check size={10} /> : i + 1}
+                                        </button>
+                                        {i < mission.steps.length - 1 && <div className={`w-px flex-1 min-h-2 ${done ? 'bg-green-800' : 'bg-gray-700'}`} />}
+                                    </div>
+                                    <div title={describeStep(step)} className={`flex-1 flex flex-wrap items-center gap-1 mb-1 px-2 py-1 rounded border ${
+                                        failed ? 'border-red-800 bg-red-950/30' : current ? 'border-cyan-800 bg-cyan-950/30' : 'border-gray-800'
+                                    }`}>
+                                        <Icon size={12} className="text-gray-500" />
+                                        <span className="w-14 font-bold text-gray-300 uppercase">{step.kind}</span>
+                                        {renderParams(step, i)}
+                                        <div className="flex ml-auto">
+                                            <button onClick={() => moveStep(i, -1)} disabled={locked || i === 0} className="p-0.5 text-gray-500 hover:text-gray-300 disabled:opacity-30"><ArrowUp size={12} /></button>
+                                            <button onClick={() => moveStep(i, 1)} disabled={locked || i === mission.steps.length - 1} className="p-0.5 text-gray-500 hover:text-gray-300 disabled:opacity-30"><ArrowDown size={12} /></button>
+                                            <button onClick={() => updateMission({ steps: mission.steps.filter((_, j) => j !== i) })} disabled={locked} className="p-0.5 text-gray-500 hover:text-red-400 disabled:opacity-30"><Trash2 size={12} /></button>
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex flex-wrap gap-1">
+                        {MISSION_STEP_KINDS.map(kind => {
+                            const Icon = KIND_ICONS[kind];
+                            return (
+                                <button
+                                    key={kind}
+                                    onClick={() => updateMission({ steps: [...mission.steps, createMissionStep(kind)] })}
+                                    disabled={locked}
+                                    className="flex items-center gap-1 px-2 py-1 rounded border border-dashed border-gray-700 hover:border-gray-500 uppercase disabled:opacity-30"
+                                >
+                                    <Plus size={10} /><Icon size={10} /> {kind}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {/* Only a warning: the servos may be elsewhere by the time the mission runs, and the runner checks again */}
+                    {problem && <span className="text-yellow-500">From the current servo positions: {problem}</span>}
+
+                    {runningThis ? (
+                        <div className="flex flex-col gap-1">
+                            <div className="h-1 bg-gray-800 rounded overflow-hidden">
+                                <div
+                                    className={`h-full transition-all ${run!.state === 'aborted' ? 'bg-red-500' : run!.state === 'completed' ? 'bg-green-500' : 'bg-cyan-500'}`}
+                                    style={{ width: `${((run!.state === 'completed' ? mission.steps.length : run!.step) / Math.max(1, mission.steps.length)) * 100}%` }}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span className={`font-bold uppercase ${run!.state === 'aborted' ? 'text-red-400' : run!.state === 'completed' ? 'text-green-400' : 'text-cyan-400'}`}>
+                                    {run!.state}{run!.singleStep && active ? ' · DEBUG' : ''}
+                                </span>
+                                <span className="flex-1 truncate" title={run!.detail}>{run!.detail}</span>
+                                {runControls}
+                                {!active && <button onClick={onDismiss} className="p-1 rounded hover:bg-gray-800"><X size={12} /></button>}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <span className="flex-1">{mission.steps.length} STEPS · {(missionDuration(mission) / 1000).toFixed(1)}s</span>
+                            <button
+                                onClick={() => onStart(mission, true)}
+                                disabled={active || mission.steps.length === 0}
+                                title="Start paused and run one step at a time"
+                                className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 hover:border-gray-500 font-bold disabled:opacity-40"
+                            >
+                                <Bug size={12} /> DEBUG
+                            </button>
+                            <button
+                                onClick={() => onStart(mission, false)}
+                                disabled={active || mission.steps.length === 0}
+                                title={active ? 'Another mission is running' : undefined}
+                                className="flex items-center gap-1 px-3 py-1 rounded border border-cyan-800 text-cyan-400 hover:bg-cyan-900/30 font-bold disabled:opacity-40"
+                            >
+                                <Play size={12} /> RUN
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
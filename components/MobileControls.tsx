@@ -1,32 +1,26 @@
 
 import React, { useState, useRef, useCallback } from 'react';
-import { RobotCommand } from '../types';
+import { RobotCommand, ServoPositions } from '../types';
+import { checkServoInterlock } from '../services/servoInterlock';
+import type { ReplayState } from '../services/sessionReplay';
 import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Smile, Frown, Zap, Heart, MessageCircle, Moon, X, Lock, Unlock } from 'lucide-react';
 
 interface Props {
     onCommand: (cmd: RobotCommand) => void;
+    servos: ServoPositions; // Owned by App so voice and manual toggles stay in sync
+    speedLimit: number;     // Full stick deflection maps to this, 0 to 255
     disabled: boolean;
+    playback?: ReplayState | null; // Recorded state to show while replaying a session
 }
 
-interface ToggleState {
-    head: boolean;
-    top: boolean;
-    skirt: boolean;
-}
-
-export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
+export const MobileControls: React.FC<Props> = ({ onCommand, servos: toggles, speedLimit, disabled, playback = null }) => {
     // Refs for network state (prevents unnecessary re-renders)
     const throttleRef = useRef(0);
     const steerRef = useRef(0);
     const lastCmdTime = useRef(0);
 
-    // Emote/Toggle State
+    // Emote State
     const [showEmotes, setShowEmotes] = useState(false);
-    const [toggles, setToggles] = useState<ToggleState>({
-        head: false,
-        top: false,
-        skirt: false
-    });
 
     // Interaction Tracking
     const leftId = useRef<number | null>(null);
@@ -47,8 +41,8 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
         const now = Date.now();
         const cmd: RobotCommand = {
             cmd: 'move',
-            throttle: throttleRef.current,
-            steer: steerRef.current
+            throttle: Math.round((throttleRef.current / 255) * speedLimit),
+            steer: Math.round((steerRef.current / 255) * speedLimit)
         };
 
         // Send if forced (stops) or at ~50Hz (20ms)
@@ -56,7 +50,7 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
             onCommand(cmd);
             lastCmdTime.current = now;
         }
-    }, [disabled, onCommand]);
+    }, [disabled, onCommand, speedLimit]);
 
     // --- LEFT STICK: THROTTLE (Vertical) ---
     const onLeftStart = (e: React.TouchEvent) => {
@@ -179,16 +173,20 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
         }
     };
 
-    const handleToggle = (target: keyof ToggleState) => {
+    const handleToggle = (target: keyof ServoPositions) => {
         if (disabled) return;
         const newState = !toggles[target];
-        if (target === 'head' && newState === true && !toggles.top) return;
-        if (target === 'top' && newState === false && toggles.head) return;
+        if (checkServoInterlock(toggles, target, newState)) return;
 
-        setToggles(prev => ({ ...prev, [target]: newState }));
         onCommand({ cmd: 'servo', target, state: newState ? 'open' : 'close' });
     };
 
+    // During replay the pucks follow the recorded command instead of the fingers
+    const leftPos = playback ? (playback.motion.throttle / 255) * 100 : leftUI;
+    const leftOn = playback ? playback.motion.throttle !== 0 : leftActive;
+    const rightPos = playback ? (playback.motion.steer / 255) * 100 : rightUI;
+    const rightOn = playback ? playback.motion.steer !== 0 : rightActive;
+
     const zoneStyle = "pointer-events-auto bg-gray-900/40 rounded-[2rem] border-2 border-white/5 relative flex items-center justify-center select-none touch-none backdrop-blur-md shadow-2xl transition-colors duration-300";
     const activeZone = "border-cyan-500/30 bg-gray-800/60 shadow-cyan-500/10";
 
@@ -200,7 +198,7 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
                 <div className={`flex flex-row-reverse items-center gap-3 p-2 transition-all rounded-full ${showEmotes ? 'bg-black/80 border border-white/10 shadow-2xl' : ''}`}>
                     <button 
                         onClick={() => setShowEmotes(!showEmotes)}
-                        className={`w-14 h-14 rounded-full flex items-center justify-center transition-all ${showEmotes ? 'bg-gray-700 text-white' : 'bg-gray-800/90 text-yellow-400 border border-white/20 shadow-lg'}`}
+                        className={`w-14 h-14 rounded-full flex items-center justify-center transition-all ${showEmotes ? 'bg-gray-700 text-white' : 'bg-gray-800/90 text-yellow-400 border border-white/20 shadow-lg'} ${playback?.emote ? 'ring-4 ring-yellow-400' : ''}`}
                     >
                         {showEmotes ? <X size={24} /> : <Smile size={32} />}
                     </button>
@@ -226,7 +224,7 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
                 
                 {/* THROTTLE: LEFT STICK */}
                 <div 
-                    className={`${zoneStyle} w-36 h-72 ${leftActive ? activeZone : ''}`}
+                    className={`${zoneStyle} w-36 h-72 ${leftOn ? activeZone : ''}`}
                     onTouchStart={onLeftStart}
                     onTouchMove={onLeftMove}
                     onTouchEnd={onLeftEnd}
@@ -238,18 +236,18 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
                     {/* Visual Puck */}
                     <div 
                         className={`absolute w-20 h-20 rounded-full border-4 flex items-center justify-center shadow-2xl transition-transform duration-75 ${
-                            leftActive ? 'bg-cyan-500/40 border-cyan-400 scale-110' : 'bg-gray-800 border-white/10 opacity-60'
+                            leftOn ? 'bg-cyan-500/40 border-cyan-400 scale-110' : 'bg-gray-800 border-white/10 opacity-60'
                         }`}
-                        style={{ transform: `translate3d(0, ${-leftUI}px, 0)` }}
+                        style={{ transform: `translate3d(0, ${-leftPos}px, 0)` }}
                     >
-                        {leftActive && (
+                        {leftOn && (
                             <div className="flex flex-col items-center">
-                                {leftUI > 20 && <ChevronUp className="text-white animate-bounce" size={20} />}
-                                {leftUI < -20 && <ChevronDown className="text-white animate-bounce" size={20} />}
+                                {leftPos > 20 && <ChevronUp className="text-white animate-bounce" size={20} />}
+                                {leftPos < -20 && <ChevronDown className="text-white animate-bounce" size={20} />}
                             </div>
                         )}
                     </div>
-                    {!leftActive && <span className="absolute bottom-6 text-white/20 text-[10px] font-black tracking-widest uppercase font-mono">POWER</span>}
+                    {!leftOn && <span className="absolute bottom-6 text-white/20 text-[10px] font-black tracking-widest uppercase font-mono">POWER</span>}
                 </div>
 
                 {/* STEERING & TOGGLES: RIGHT SIDE */}
@@ -258,9 +256,9 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
                     {/* Servo Controls Group */}
                     <div className="grid grid-cols-1 gap-2 w-36 pointer-events-auto">
                          {['head', 'top', 'skirt'].map((t) => {
-                             const target = t as keyof ToggleState;
+                             const target = t as keyof ServoPositions;
                              const active = toggles[target];
-                             const locked = (target === 'head' && !active && !toggles.top) || (target === 'top' && active && toggles.head);
+                             const locked = checkServoInterlock(toggles, target, !active) !== null;
                              
                              return (
                                 <button 
@@ -279,7 +277,7 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
 
                     {/* STEER: RIGHT STICK */}
                     <div 
-                        className={`${zoneStyle} w-72 h-36 ${rightActive ? activeZone : ''}`}
+                        className={`${zoneStyle} w-72 h-36 ${rightOn ? activeZone : ''}`}
                         onTouchStart={onRightStart}
                         onTouchMove={onRightMove}
                         onTouchEnd={onRightEnd}
@@ -289,18 +287,18 @@ export const MobileControls: React.FC<Props> = ({ onCommand, disabled }) => {
                         
                         <div 
                             className={`absolute w-20 h-20 rounded-full border-4 flex items-center justify-center shadow-2xl transition-transform duration-75 ${
-                                rightActive ? 'bg-purple-500/40 border-purple-400 scale-110' : 'bg-gray-800 border-white/10 opacity-60'
+                                rightOn ? 'bg-purple-500/40 border-purple-400 scale-110' : 'bg-gray-800 border-white/10 opacity-60'
                             }`}
-                            style={{ transform: `translate3d(${rightUI}px, 0, 0)` }}
+                            style={{ transform: `translate3d(${rightPos}px, 0, 0)` }}
                         >
-                            {rightActive && (
+                            {rightOn && (
                                 <div className="flex items-center">
-                                    {rightUI < -20 && <ChevronLeft className="text-white animate-pulse" size={20} />}
-                                    {rightUI > 20 && <ChevronRight className="text-white animate-pulse" size={20} />}
+                                    {rightPos < -20 && <ChevronLeft className="text-white animate-pulse" size={20} />}
+                                    {rightPos > 20 && <ChevronRight className="text-white animate-pulse" size={20} />}
                                 </div>
                             )}
                         </div>
-                        {!rightActive && <span className="absolute bottom-4 text-white/20 text-[10px] font-black tracking-widest uppercase font-mono">STEER</span>}
+                        {!rightOn && <span className="absolute bottom-4 text-white/20 text-[10px] font-black tracking-widest uppercase font-mono">STEER</span>}
                     </div>
                 </div>
             </div>
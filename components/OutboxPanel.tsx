@@ -0,0 +1,47 @@
+import React from 'react';
+import { Inbox, Send, Trash2 } from 'lucide-react';
+
+interface Props {
+    depth: number;
+    canFlush: boolean;
+    onFlush: () => void;
+    onClear: () => void;
+    compact?: boolean;
+}
+
+export const OutboxPanel: React.FC<Props> = ({ depth, canFlush, onFlush, onClear, compact = false }) => {
+    if (depth === 0) return null;
+
+    if (compact) {
+        return (
+            <div className="pointer-events-auto flex items-center gap-1 bg-black/60 border border-yellow-700/50 rounded-full pl-2 pr-1 py-0.5 font-mono text-[10px] text-yellow-400 backdrop-blur-md">
+                <Inbox size={12} /> {depth}
+                <button onClick={onClear} className="p-1 text-gray-400 active:text-red-400"><Trash2 size={12} /></button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-yellow-950/20 border border-yellow-900/60 rounded-lg px-3 py-2 flex items-center gap-3 font-mono text-xs">
+            <Inbox size={16} className="text-yellow-500 shrink-0" />
+            <span className="flex-1 text-yellow-200/80">
+                {depth} command{depth === 1 ? '' : 's'} queued {canFlush ? '' : 'until link returns'}
+            </span>
+            <button
+                onClick={onFlush}
+                disabled={!canFlush}
+                className={`flex items-center gap-1 px-2 py-1 rounded border text-[10px] font-bold transition-colors ${
+                    canFlush ? 'border-cyan-800 text-cyan-400 hover:bg-cyan-900/30' : 'border-gray-800 text-gray-600 cursor-not-allowed'
+                }`}
+            >
+                <Send size={12} /> FLUSH
+            </button>
+            <button
+                onClick={onClear}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-red-900 text-red-400 hover:bg-red-900/30 text-[10px] font-bold transition-colors"
+            >
+                <Trash2 size={12} /> CLEAR
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { RobotProfile } from '../types';
+
+interface Props {
+    profile: RobotProfile;
+    onChange: (patch: Partial<RobotProfile>) => void;
+}
+
+// Per-robot settings that don't fit the quick-connect rows
+export const ProfileEditor: React.FC<Props> = ({ profile, onChange }) => {
+    const inputClass = "bg-black border border-gray-700 rounded px-3 py-2 text-sm font-mono outline-none focus:border-cyan-500";
+
+    return (
+        <div className="grid grid-cols-2 gap-3 border-t border-gray-800 pt-3 font-mono text-[10px] text-gray-500">
+            <label className="flex flex-col gap-1">
+                NAME
+                <input value={profile.name} onChange={e => onChange({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+                CONTROL PORT
+                <input
+                    type="number"
+                    min="1"
+                    max="65535"
+                    value={profile.robotPort}
+                    onChange={e => onChange({ robotPort: Number(e.target.value) })}
+                    className={inputClass}
+                />
+            </label>
+            <label className="flex flex-col gap-1">
+                CAMERA USER
+                <input value={profile.cameraUser ?? ''} onChange={e => onChange({ cameraUser: e.target.value })} autoComplete="off" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+                CAMERA PASSWORD
+                <input type="password" value={profile.cameraPwd ?? ''} onChange={e => onChange({ cameraPwd: e.target.value })} autoComplete="new-password" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+                <span className="flex justify-between"><span>SPEED LIMIT</span><span>{Math.round((profile.speedLimit / 255) * 100)}%</span></span>
+                <input
+                    type="range"
+                    min="0"
+                    max="255"
+                    value={profile.speedLimit}
+                    onChange={e => onChange({ speedLimit: Number(e.target.value) })}
+                    className="w-full accent-cyan-500 mt-2"
+                />
+            </label>
+            <label className="flex items-center gap-2 self-end pb-2 cursor-pointer">
+                <input type="checkbox" checked={profile.useIframe} onChange={e => onChange({ useIframe: e.target.checked })} className="accent-cyan-500" />
+                CAMERA COMPAT (IFRAME) MODE
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer col-span-2">
+                <input type="checkbox" checked={profile.useImgFallback} onChange={e => onChange({ useImgFallback: e.target.checked })} className="accent-cyan-500" />
+                PLAIN IMG FEED (SKIP MJPEG DECODER)
+            </label>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { RobotProfile } from '../types';
+import { Plus, Copy, Pencil, Trash2, Bot } from 'lucide-react';
+
+interface Props {
+    profiles: RobotProfile[];
+    activeId: string;
+    editing: boolean;
+    onSelect: (id: string) => void;
+    onCreate: () => void;
+    onCreateSimulated: () => void;
+    onDuplicate: () => void;
+    onEdit: () => void;
+    onDelete: () => void;
+}
+
+export const ProfileSwitcher: React.FC<Props> = ({ profiles, activeId, editing, onSelect, onCreate, onCreateSimulated, onDuplicate, onEdit, onDelete }) => {
+    const iconClass = "p-1.5 rounded hover:bg-gray-800 text-gray-500 hover:text-gray-300 transition disabled:opacity-30 disabled:hover:bg-transparent";
+
+    return (
+        <div className="flex items-center gap-1">
+            <select
+                value={activeId}
+                onChange={e => onSelect(e.target.value)}
+                className="max-w-[140px] bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-cyan-300 outline-none focus:border-cyan-500"
+            >
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button onClick={onEdit} title="Edit profile" className={`${iconClass} ${editing ? 'text-cyan-400' : ''}`}>
+                <Pencil size={14} />
+            </button>
+            <button onClick={onCreate} title="New profile" className={iconClass}>
+                <Plus size={14} />
+            </button>
+            <button onClick={onCreateSimulated} title="New simulated rover" className={iconClass}>
+                <Bot size={14} />
+            </button>
+            <button onClick={onDuplicate} title="Duplicate profile" className={iconClass}>
+                <Copy size={14} />
+            </button>
+            <button onClick={onDelete} disabled={profiles.length <= 1} title="Delete profile" className={iconClass}>
+                <Trash2 size={14} />
+            </button>
+        </div>
+    );
+};
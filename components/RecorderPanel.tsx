@@ -0,0 +1,129 @@
+import React, { useRef } from 'react';
+import { RecorderStats, SessionRecording } from '../services/sessionRecorder';
+import { Circle, Download, FolderOpen, Play, Square, Trash2, VideoOff } from 'lucide-react';
+
+interface Props {
+    stats: RecorderStats | null;
+    recording: SessionRecording | null; // Last finished session, until exported or discarded
+    busy: boolean;
+    onStart: () => void;
+    onStop: () => void;
+    onExport: () => void;
+    onDiscard: () => void;
+    onReplay: () => void;
+    onOpen: (file: File) => void; // A previously exported bundle
+    compact?: boolean;
+}
+
+const formatElapsed = (ms: number) => {
+    const sec = Math.floor(ms / 1000);
+    return `${String(Math.floor(sec / 60)).padStart(2, '0')}:${String(sec % 60).padStart(2, '0')}`;
+};
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const RecorderPanel: React.FC<Props> = ({ stats, recording, busy, onStart, onStop, onExport, onDiscard, onReplay, onOpen, compact = false }) => {
+    const active = !!stats?.recording;
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    if (compact) {
+        return (
+            <button
+                onClick={active ? onStop : onStart}
+                disabled={busy}
+                className={`pointer-events-auto flex items-center gap-1 bg-black/60 border rounded-full px-2 py-0.5 font-mono text-[10px] backdrop-blur-md ${
+                    active ? 'border-red-700 text-red-400' : 'border-gray-700 text-gray-400'
+                }`}
+            >
+                <Circle size={10} className={active ? 'fill-red-500 animate-pulse' : ''} />
+                {active ? formatElapsed(stats!.elapsedMs) : 'REC'}
+            </button>
+        );
+    }
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 flex flex-col gap-2 font-mono text-[10px] text-gray-400">
+            <div className="flex items-center gap-3">
+                <Circle size={12} className={active ? 'text-red-500 fill-red-500 animate-pulse' : 'text-gray-600'} />
+                <span className="flex-1">
+                    {active
+                        ? `REC ${formatElapsed(stats!.elapsedMs)} · ${stats!.events} EVENTS · ${stats!.videoFrames} FRAMES (${formatMb(stats!.videoBytes)})`
+                        : recording
+                            ? `${formatElapsed(recording.manifest.durationMs)} SESSION · ${recording.manifest.eventCount} EVENTS${recording.video ? ` · ${formatMb(recording.video.size)} VIDEO` : ''}`
+                            : 'SESSION RECORDER'}
+                </span>
+                {!active && (
+                    <>
+                        <input
+                            ref={fileRef}
+                            type="file"
+                            accept=".zip,application/zip"
+                            className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0];
+                                if (file) onOpen(file);
+                                e.target.value = '';
+                            }}
+                        />
+                        <button
+                            onClick={() => fileRef.current?.click()}
+                            disabled={busy}
+                            title="Open an exported session for replay"
+                            className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 text-gray-400 hover:border-gray-500 transition-colors disabled:opacity-50"
+                        >
+                            <FolderOpen size={12} />
+                        </button>
+                    </>
+                )}
+                {active ? (
+                    <button
+                        onClick={onStop}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-red-800 text-red-400 hover:bg-red-900/30 font-bold transition-colors disabled:opacity-50"
+                    >
+                        <Square size={12} /> STOP
+                    </button>
+                ) : (
+                    <button
+                        onClick={onStart}
+                        disabled={busy}
+                        title={recording ? 'Starts a new session; the one above is discarded' : undefined}
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 text-gray-300 hover:border-red-700 hover:text-red-400 font-bold transition-colors disabled:opacity-50"
+                    >
+                        <Circle size={12} /> REC
+                    </button>
+                )}
+            </div>
+
+            {active && stats!.videoUnavailable && (
+                <span className="flex items-center gap-1 text-gray-500"><VideoOff size={12} /> {stats!.videoUnavailable}. Recording commands and logs only.</span>
+            )}
+
+            {!active && recording && (
+                <div className="flex gap-2">
+                    <button
+                        onClick={onReplay}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 text-gray-300 hover:border-gray-500 font-bold transition-colors disabled:opacity-50"
+                    >
+                        <Play size={12} /> REPLAY
+                    </button>
+                    <button
+                        onClick={onExport}
+                        disabled={busy}
+                        className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border border-cyan-800 text-cyan-400 hover:bg-cyan-900/30 font-bold transition-colors disabled:opacity-50"
+                    >
+                        <Download size={12} /> {busy ? 'PACKING...' : 'EXPORT BUNDLE'}
+                    </button>
+                    <button
+                        onClick={onDiscard}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-red-900 text-red-400 hover:bg-red-900/30 font-bold transition-colors disabled:opacity-50"
+                    >
+                        <Trash2 size={12} /> DISCARD
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
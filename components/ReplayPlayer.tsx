@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SessionRecording } from '../services/sessionRecorder';
+import { SessionTimeline, TimedCommand, TimelineMarker } from '../services/sessionReplay';
+import { Controls } from './Controls';
+import { MobileControls } from './MobileControls';
+import { Pause, Play, SkipBack, Send, Square, X, VideoOff } from 'lucide-react';
+
+interface Props {
+    recording: SessionRecording;
+    mobile: boolean;
+    liveRobot: { name: string, connected: boolean }; // The focused robot, target for segment replays
+    liveProgress: number | null;   // Recording time of the last command a segment replay sent, null when idle
+    onSendSegment: (commands: TimedCommand[], label: string) => void;
+    onAbortSegment: () => void;
+    onClose: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+// Only seek the video when it has drifted this far, seeking every frame stutters
+const VIDEO_DRIFT_S = 0.25;
+const RECENT_EVENTS = 6;
+
+const MARKER_COLORS: Record<TimelineMarker['kind'], string> = {
+    emote: 'bg-yellow-400',
+    servo: 'bg-cyan-400',
+    error: 'bg-red-500'
+};
+
+const formatTime = (ms: number) => {
+    const sec = Math.max(0, ms) / 1000;
+    return `${String(Math.floor(sec / 60)).padStart(2, '0')}:${(sec % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const noop = () => {};
+
+export const ReplayPlayer: React.FC<Props> = ({ recording, mobile, liveRobot, liveProgress, onSendSegment, onAbortSegment, onClose }) => {
+    const timeline = useMemo(() => new SessionTimeline(recording), [recording]);
+    const { manifest } = recording;
+    const robotIds = timeline.robotIds();
+    const [robotId, setRobotId] = useState(robotIds[0] ?? '');
+    const [time, setTime] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    const [segment, setSegment] = useState<{ from: number, to: number | null } | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const barRef = useRef<HTMLDivElement>(null);
+    const timeRef = useRef(0);
+
+    const videoUrl = useMemo(() => recording.video ? URL.createObjectURL(recording.video) : null, [recording.video]);
+    useEffect(() => () => {
+        if (videoUrl) URL.revokeObjectURL(videoUrl);
+    }, [videoUrl]);
+
+    const seek = (t: number) => {
+        const clamped = Math.max(0, Math.min(timeline.durationMs, t));
+        timeRef.current = clamped;
+        setTime(clamped);
+    };
+
+    // Our clock drives playback; the video follows it
+    useEffect(() => {
+        if (!playing) return;
+        let frame = 0;
+        let last = performance.now();
+        const step = (now: number) => {
+            const next = timeRef.current + (now - last) * speed;
+            last = now;
+            if (next >= timeline.durationMs) {
+                seek(timeline.durationMs);
+                setPlaying(false);
+                return;
+            }
+            seek(next);
+            frame = requestAnimationFrame(step);
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [playing, speed, timeline]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || !manifest.video) return;
+        const target = (time - manifest.video.offsetMs) / 1000;
+        video.playbackRate = speed;
+        if (target < 0) {
+            video.pause();
+            video.currentTime = 0;
+            return;
+        }
+        // MediaRecorder WebM has no seek index, so large jumps can take a moment
+        if (Math.abs(video.currentTime - target) > VIDEO_DRIFT_S) video.currentTime = target;
+        if (playing && video.paused) video.play().catch(noop);
+        else if (!playing && !video.paused) video.pause();
+    }, [time, playing, speed, manifest.video]);
+
+    const state = timeline.stateAt(robotId, time);
+    const recent = timeline.recentEvents(robotId, time, RECENT_EVENTS);
+
+    const scrubTo = (clientX: number) => {
+        const bar = barRef.current;
+        if (!bar) return;
+        const rect = bar.getBoundingClientRect();
+        seek(((clientX - rect.left) / rect.width) * timeline.durationMs);
+    };
+
+    const segmentCommands = segment && segment.to !== null ? timeline.segment(robotId, segment.from, segment.to) : [];
+
+    const sendSegment = () => {
+        if (!segment || segment.to === null || segmentCommands.length === 0) return;
+        const seconds = ((segment.to - segment.from) / 1000).toFixed(1);
+        if (!window.confirm(`Send ${segmentCommands.length} recorded commands (${seconds}s) to "${liveRobot.name}"? The robot will move.`)) return;
+        onSendSegment(segmentCommands, `${formatTime(segment.from)}-${formatTime(segment.to)}`);
+    };
+
+    const pct = (t: number) => `${(t / Math.max(1, timeline.durationMs)) * 100}%`;
+    const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded border border-gray-700 hover:border-gray-500 transition-colors disabled:opacity-40';
+
+    const transport = (
+        <div className="flex flex-col gap-2 font-mono text-[10px] text-gray-400">
+            {/* Timeline with event markers and the selected segment */}
+            <div
+                ref={barRef}
+                className="relative h-8 bg-gray-900 border border-gray-800 rounded cursor-pointer touch-none"
+                onPointerDown={e => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    scrubTo(e.clientX);
+                }}
+                onPointerMove={e => {
+                    if (e.currentTarget.hasPointerCapture(e.pointerId)) scrubTo(e.clientX);
+                }}
+            >
+                {manifest.video && (
+                    <div className="absolute inset-y-0 bg-gray-800/60" style={{ left: pct(manifest.video.offsetMs), right: 0 }} title="Video" />
+                )}
+                {segment && (
+                    <div
+                        className="absolute inset-y-0 bg-cyan-900/40 border-x border-cyan-500"
+                        style={{ left: pct(segment.from), width: pct((segment.to ?? time) - segment.from) }}
+                    />
+                )}
+                {timeline.markers.map((m, i) => (
+                    <div key={i} className={`absolute top-1 w-0.5 h-3 ${MARKER_COLORS[m.kind]}`} style={{ left: pct(m.t) }} title={`${formatTime(m.t)} ${m.label}`} />
+                ))}
+                {liveProgress !== null && (
+                    <div className="absolute bottom-0 w-1 h-2 bg-green-400" style={{ left: pct(liveProgress) }} />
+                )}
+                <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: pct(time) }} />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => seek(0)} className={buttonClass}><SkipBack size={12} /></button>
+                <button onClick={() => setPlaying(!playing)} className={`${buttonClass} text-cyan-400 border-cyan-800`}>
+                    {playing ? <Pause size={12} /> : <Play size={12} />}
+                </button>
+                <span className="text-gray-300">{formatTime(time)} / {formatTime(timeline.durationMs)}</span>
+                <select value={speed} onChange={e => setSpeed(Number(e.target.value))} className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300 outline-none">
+                    {SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+                </select>
+
+                <span className="flex-1" />
+
+                <button onClick={() => setSegment({ from: time, to: null })} className={buttonClass}>IN</button>
+                <button onClick={() => segment && time > segment.from && setSegment({ ...segment, to: time })} disabled={!segment || time <= segment.from} className={buttonClass}>OUT</button>
+                {segment && <button onClick={() => setSegment(null)} className={buttonClass}><X size={12} /></button>}
+                {liveProgress !== null ? (
+                    <button onClick={onAbortSegment} className={`${buttonClass} border-red-800 text-red-400`}>
+                        <Square size={12} /> ABORT
+                    </button>
+                ) : (
+                    <button
+                        onClick={sendSegment}
+                        disabled={segmentCommands.length === 0 || !liveRobot.connected}
+                        title={!liveRobot.connected ? `${liveRobot.name} is not connected` : 'Mark a segment with IN and OUT first'}
+                        className={`${buttonClass} border-amber-800 text-amber-400`}
+                    >
+                        <Send size={12} /> SEND TO {liveRobot.name.toUpperCase()}
+                    </button>
+                )}
+            </div>
+
+            <div className="flex gap-3 text-gray-500">
+                <span><span className="inline-block w-2 h-2 bg-yellow-400 mr-1" />EMOTE</span>
+                <span><span className="inline-block w-2 h-2 bg-cyan-400 mr-1" />SERVO</span>
+                <span><span className="inline-block w-2 h-2 bg-red-500 mr-1" />ERROR</span>
+                {segment && segment.to !== null && <span className="text-cyan-500">{segmentCommands.length} COMMANDS IN SEGMENT</span>}
+            </div>
+        </div>
+    );
+
+    const picture = (
+        <div className="absolute inset-0 bg-black flex items-center justify-center">
+            {videoUrl ? (
+                <video ref={videoRef} src={videoUrl} muted playsInline className="w-full h-full object-contain" />
+            ) : (
+                <span className="flex items-center gap-2 text-gray-600 font-mono text-xs"><VideoOff size={16} /> NO VIDEO IN THIS SESSION</span>
+            )}
+        </div>
+    );
+
+    const header = (
+        <div className="flex items-center gap-3 font-mono text-xs text-gray-400">
+            <span className="text-cyan-400 font-bold tracking-widest">REPLAY</span>
+            <span className="flex-1 truncate">{new Date(manifest.startedAt).toLocaleString()}</span>
+            {manifest.robots.length > 1 && (
+                <select value={robotId} onChange={e => setRobotId(e.target.value)} className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300 outline-none text-[10px]">
+                    {manifest.robots.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                </select>
+            )}
+            <button onClick={onClose} className="p-1 rounded hover:bg-gray-800 text-gray-400"><X size={16} /></button>
+        </div>
+    );
+
+    if (mobile) {
+        return (
+            <div className="fixed inset-0 z-[60] bg-black overflow-hidden select-none">
+                {picture}
+                <MobileControls onCommand={noop} servos={state.servos} speedLimit={255} disabled={true} playback={state} />
+                <div className="absolute top-0 inset-x-0 z-40 bg-black/70 backdrop-blur-md p-2 flex flex-col gap-1">
+                    {header}
+                    {transport}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-gray-950 overflow-y-auto p-4">
+            <div className="max-w-5xl mx-auto flex flex-col gap-4">
+                {header}
+                <div className="flex flex-col lg:flex-row gap-4 items-start">
+                    <div className="w-full flex flex-col gap-3">
+                        <div className="relative w-full aspect-[4/3] rounded-lg border-2 border-gray-800 overflow-hidden">{picture}</div>
+                        {transport}
+                        <div className="bg-black border border-gray-800 rounded p-2 font-mono text-[10px] flex flex-col gap-0.5">
+                            {recent.length === 0 && <span className="text-gray-600">No events yet</span>}
+                            {recent.map((e, i) => (
+                                <span key={i} className={e.kind === 'log' && e.level === 'error' ? 'text-red-400' : e.kind === 'command' ? 'text-green-400' : 'text-gray-400'}>
+                                    [{formatTime(e.t)}] {e.kind === 'command' ? `TX ${JSON.stringify(e.command)}` : e.kind === 'log' ? `${e.source}: ${e.message}` : ''}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="w-full lg:w-80 shrink-0">
+                        <Controls onCommand={noop} servos={state.servos} speed={255} onSpeedChange={noop} disabled={true} playback={state} />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
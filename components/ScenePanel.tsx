@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { SceneAnalysis } from '../types';
+import { ScanEye, Loader2, Timer, AlertCircle } from 'lucide-react';
+
+interface Props {
+    results: SceneAnalysis[];
+    analyzing: boolean;
+    autoScanSec: number;
+    setAutoScanSec: (sec: number) => void;
+    onAnalyze: () => void;
+    disabledReason: string | null;
+}
+
+const AUTO_SCAN_OPTIONS = [0, 10, 30, 60];
+
+export const ScenePanel: React.FC<Props> = ({ results, analyzing, autoScanSec, setAutoScanSec, onAnalyze, disabledReason }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const latest = results[results.length - 1];
+    const selected = results.find(r => r.id === selectedId) ?? latest;
+    const disabled = disabledReason !== null;
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 shadow-lg flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-gray-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+                    <ScanEye size={16} className={disabled ? 'text-gray-600' : 'text-purple-400'} /> AI Vision
+                </h3>
+                <button
+                    onClick={onAnalyze}
+                    disabled={disabled || analyzing}
+                    className={`px-3 py-1 rounded text-[10px] font-bold border flex items-center gap-1 transition-colors ${
+                        disabled ? 'bg-gray-800/50 text-gray-600 border-gray-800 cursor-not-allowed' :
+                        analyzing ? 'bg-yellow-900/20 text-yellow-500 border-yellow-900' :
+                        'bg-purple-900/30 text-purple-400 border-purple-900 hover:bg-purple-900/50'
+                    }`}
+                >
+                    {analyzing ? <Loader2 size={12} className="animate-spin" /> : <ScanEye size={12} />}
+                    {analyzing ? 'SCANNING...' : 'SCAN'}
+                </button>
+            </div>
+
+            {disabledReason && (
+                <div className="flex items-center gap-2 text-[10px] text-gray-500 font-mono bg-gray-950 border border-gray-800 rounded p-2">
+                    <AlertCircle size={12} className="shrink-0" /> {disabledReason}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+                <Timer size={12} />
+                <span>AUTO</span>
+                <div className="flex gap-1">
+                    {AUTO_SCAN_OPTIONS.map(sec => (
+                        <button
+                            key={sec}
+                            onClick={() => setAutoScanSec(sec)}
+                            disabled={disabled}
+                            className={`px-2 py-0.5 rounded border transition-colors ${
+                                autoScanSec === sec ? 'bg-purple-900/40 border-purple-700 text-purple-300' : 'border-gray-800 text-gray-500 hover:border-gray-600'
+                            }`}
+                        >
+                            {sec === 0 ? 'OFF' : `${sec}s`}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {selected ? (
+                <div className="flex gap-3">
+                    <img src={selected.thumbnail} alt="Analyzed frame" className="w-24 h-[72px] object-cover rounded border border-gray-800 shrink-0" />
+                    <div className="flex flex-col min-w-0">
+                        <span className="text-[10px] text-gray-600 font-mono">{selected.timestamp.toLocaleTimeString()}</span>
+                        <p className={`text-xs leading-relaxed whitespace-pre-wrap ${selected.failed ? 'text-red-400' : 'text-gray-300'}`}>{selected.text}</p>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-[10px] text-gray-600 font-mono text-center py-2">No frames analyzed yet</p>
+            )}
+
+            {/* Thumbnail History */}
+            {results.length > 1 && (
+                <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                    {results.slice().reverse().map(r => (
+                        <button
+                            key={r.id}
+                            onClick={() => setSelectedId(r.id)}
+                            className={`shrink-0 rounded overflow-hidden border-2 transition-colors ${r.id === selected?.id ? 'border-purple-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                        >
+                            <img src={r.thumbnail} alt={r.timestamp.toLocaleTimeString()} className="w-14 h-10 object-cover" />
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef } from 'react';
+import { Emote } from '../types';
+import { getSimulator, SimFault, SimSnapshot } from '../services/simulator';
+import { Unplug, Hourglass, Snowflake } from 'lucide-react';
+
+interface Props {
+    address: string;
+    fullscreen?: boolean;
+}
+
+const FAULTS: { fault: SimFault, label: string, icon: React.ReactNode, title: string }[] = [
+    { fault: 'disconnect', label: 'DROP LINK', icon: <Unplug size={12} />, title: 'Close the connection and refuse reconnects for a few seconds' },
+    { fault: 'latency', label: 'LAG SPIKE', icon: <Hourglass size={12} />, title: 'Add several hundred ms of latency for a few seconds' },
+    { fault: 'stall', label: 'STALL', icon: <Snowflake size={12} />, title: 'Firmware stops answering; motors hold their last output' }
+];
+
+const ROVER_LENGTH = 0.25;  // m
+const ROVER_WIDTH = 0.2;    // m
+
+const draw = (canvas: HTMLCanvasElement, snap: SimSnapshot) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = '#030712';
+    ctx.fillRect(0, 0, width, height);
+
+    // World metres to screen pixels, north up, arena centred
+    const scale = Math.min(width, height) / (snap.arena * 2 + 0.4);
+    const toX = (x: number) => width / 2 + x * scale;
+    const toY = (y: number) => height / 2 - y * scale;
+
+    // Half-metre grid
+    ctx.strokeStyle = '#111827';
+    ctx.lineWidth = 1;
+    for (let m = -snap.arena; m <= snap.arena; m += 0.5) {
+        ctx.beginPath();
+        ctx.moveTo(toX(m), toY(-snap.arena));
+        ctx.lineTo(toX(m), toY(snap.arena));
+        ctx.moveTo(toX(-snap.arena), toY(m));
+        ctx.lineTo(toX(snap.arena), toY(m));
+        ctx.stroke();
+    }
+    ctx.strokeStyle = '#374151';
+    ctx.strokeRect(toX(-snap.arena), toY(snap.arena), snap.arena * 2 * scale, snap.arena * 2 * scale);
+
+    // Access point at the origin
+    ctx.fillStyle = '#0e7490';
+    ctx.beginPath();
+    ctx.arc(toX(0), toY(0), 4, 0, Math.PI * 2);
+    ctx.fill();
+
+    if (snap.trail.length > 1) {
+        ctx.strokeStyle = 'rgba(34, 211, 238, 0.35)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        snap.trail.forEach((p, i) => i === 0 ? ctx.moveTo(toX(p.x), toY(p.y)) : ctx.lineTo(toX(p.x), toY(p.y)));
+        ctx.stroke();
+    }
+
+    // Rover body, nose pointing along the heading
+    ctx.save();
+    ctx.translate(toX(snap.pose.x), toY(snap.pose.y));
+    ctx.rotate(-snap.pose.heading);
+    const length = ROVER_LENGTH * scale;
+    const bodyWidth = ROVER_WIDTH * scale;
+    ctx.fillStyle = snap.linked ? '#0891b2' : '#4b5563';
+    ctx.fillRect(-length / 2, -bodyWidth / 2, length, bodyWidth);
+    ctx.fillStyle = snap.servos.top ? '#f59e0b' : '#1f2937';
+    ctx.fillRect(-length / 4, -bodyWidth / 4, length / 2, bodyWidth / 2);
+    if (snap.servos.head) {
+        ctx.fillStyle = '#fbbf24';
+        ctx.beginPath();
+        ctx.arc(0, 0, bodyWidth / 5, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    if (snap.servos.skirt) {
+        ctx.strokeStyle = '#a78bfa';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(-length / 2 - 3, -bodyWidth / 2 - 3, length + 6, bodyWidth + 6);
+    }
+    ctx.strokeStyle = '#ecfeff';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(length / 2, 0);
+    ctx.lineTo(length / 2 + 10, 0);
+    ctx.stroke();
+    ctx.restore();
+
+    if (snap.emote !== null) {
+        ctx.fillStyle = '#fde047';
+        ctx.font = 'bold 11px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(Emote[snap.emote] ?? `EMOTE ${snap.emote}`, toX(snap.pose.x), toY(snap.pose.y) - length);
+    }
+};
+
+// Top-down view of a simulated rover, shown in place of the camera feed
+export const SimulatorView: React.FC<Props> = ({ address, fullscreen = false }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const readoutRef = useRef<HTMLDivElement>(null);
+    const faultRefs = useRef<Partial<Record<SimFault, HTMLButtonElement | null>>>({});
+    const sim = getSimulator(address);
+
+    // Animate straight from the simulator state; nothing here needs React re-renders
+    useEffect(() => {
+        let frame = 0;
+        const render = () => {
+            const snap = sim.getSnapshot();
+            if (canvasRef.current) draw(canvasRef.current, snap);
+            if (readoutRef.current) {
+                const deg = Math.round(((90 - snap.pose.heading * 180 / Math.PI) % 360 + 360) % 360);
+                readoutRef.current.textContent =
+                    `X ${snap.pose.x.toFixed(2)}m  Y ${snap.pose.y.toFixed(2)}m  HDG ${deg}°  ${snap.speed.toFixed(2)}m/s  PWM ${snap.throttle}/${snap.steer}`;
+            }
+            for (const { fault } of FAULTS) {
+                faultRefs.current[fault]?.classList.toggle('sim-fault-active', snap.faults.includes(fault));
+            }
+            frame = requestAnimationFrame(render);
+        };
+        frame = requestAnimationFrame(render);
+        return () => cancelAnimationFrame(frame);
+    }, [sim]);
+
+    const content = (
+        <>
+            <canvas ref={canvasRef} className="w-full h-full block" />
+            <div ref={readoutRef} className="absolute bottom-2 left-2 right-2 font-mono text-[10px] text-cyan-500/80 pointer-events-none truncate" />
+            <div className={`absolute ${fullscreen ? 'top-10 left-4' : 'top-2 left-2'} flex gap-1 z-20`}>
+                {FAULTS.map(({ fault, label, icon, title }) => (
+                    <button
+                        key={fault}
+                        ref={el => { faultRefs.current[fault] = el; }}
+                        onClick={() => sim.injectFault(fault)}
+                        title={title}
+                        className="flex items-center gap-1 bg-black/60 hover:bg-red-900/60 text-gray-300 px-2 py-1 rounded border border-gray-700 font-mono text-[9px] [&.sim-fault-active]:border-red-500 [&.sim-fault-active]:text-red-400 [&.sim-fault-active]:animate-pulse"
+                    >
+                        {icon} {label}
+                    </button>
+                ))}
+            </div>
+        </>
+    );
+
+    if (fullscreen) {
+        return (
+            <div className="absolute inset-0 bg-black overflow-hidden z-0">
+                {content}
+                <div className="absolute top-4 left-4 text-xs font-mono text-cyan-500/50 pointer-events-none z-20">
+                    SIMULATOR :: {address}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col items-center w-full">
+            <h2 className="text-cyan-400 font-mono mb-2 text-sm tracking-widest uppercase opacity-70">Simulated Rover</h2>
+            <div className="w-full max-w-[640px] aspect-[4/3] bg-black rounded-lg border-2 border-gray-800 shadow-2xl overflow-hidden relative">
+                {content}
+            </div>
+            <p className="text-[10px] text-gray-600 font-mono mt-2 truncate max-w-md">
+                SRC: {address}
+            </p>
+        </div>
+    );
+};
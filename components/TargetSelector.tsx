@@ -0,0 +1,73 @@
+import React from 'react';
+import { ControlTarget } from '../types';
+import { Crosshair, Users, Radio, OctagonX } from 'lucide-react';
+
+interface Props {
+    target: ControlTarget;
+    onChange: (target: ControlTarget) => void;
+    groupSize: number;
+    linkedCount: number;
+    onStopAll: () => void;
+    compact?: boolean;
+}
+
+const TARGETS: { id: ControlTarget, label: string, icon: React.ReactNode }[] = [
+    { id: 'focused', label: 'FOCUSED', icon: <Crosshair size={12} /> },
+    { id: 'group', label: 'GROUP', icon: <Users size={12} /> },
+    { id: 'all', label: 'ALL', icon: <Radio size={12} /> }
+];
+
+export const TargetSelector: React.FC<Props> = ({ target, onChange, groupSize, linkedCount, onStopAll, compact = false }) => {
+    if (compact) {
+        const next = TARGETS[(TARGETS.findIndex(t => t.id === target) + 1) % TARGETS.length];
+        const current = TARGETS.find(t => t.id === target)!;
+        return (
+            <div className="pointer-events-auto flex items-center gap-2">
+                <button
+                    onClick={() => onChange(next.id)}
+                    className={`flex items-center gap-1 px-3 py-1.5 rounded-full border font-mono text-[10px] font-bold backdrop-blur-md ${
+                        target === 'focused' ? 'bg-black/60 border-white/10 text-gray-300' : 'bg-orange-900/60 border-orange-500/60 text-orange-200'
+                    }`}
+                >
+                    {current.icon} {current.label}
+                </button>
+                <button
+                    onClick={onStopAll}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-red-700 active:bg-red-600 border border-red-400 text-white font-mono text-[10px] font-black"
+                >
+                    <OctagonX size={12} /> STOP ALL
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-2 flex items-center gap-2 font-mono text-[10px]">
+            <span className="text-gray-500 px-1">SEND TO</span>
+            <div className="flex flex-1 gap-1">
+                {TARGETS.map(t => (
+                    <button
+                        key={t.id}
+                        onClick={() => onChange(t.id)}
+                        className={`flex-1 flex items-center justify-center gap-1 py-1.5 rounded border font-bold transition-colors ${
+                            target === t.id
+                                ? t.id === 'focused' ? 'bg-cyan-900/40 border-cyan-700 text-cyan-300' : 'bg-orange-900/40 border-orange-600 text-orange-300'
+                                : 'border-gray-800 text-gray-500 hover:border-gray-600'
+                        }`}
+                    >
+                        {t.icon} {t.label}
+                        {t.id === 'group' && ` (${groupSize})`}
+                        {t.id === 'all' && ` (${linkedCount})`}
+                    </button>
+                ))}
+            </div>
+            <button
+                onClick={onStopAll}
+                title="Stop every linked rover and lock out motion"
+                className="flex items-center gap-1 px-3 py-1.5 rounded bg-red-900/50 hover:bg-red-800 border border-red-700 text-red-200 font-black"
+            >
+                <OctagonX size={12} /> STOP ALL
+            </button>
+        </div>
+    );
+};
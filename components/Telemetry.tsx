@@ -1,21 +1,45 @@
 import React from 'react';
-import { RobotStatus } from '../types';
+import { RobotStatus, TelemetrySample } from '../types';
 import { AreaChart, Area, ResponsiveContainer } from 'recharts';
-import { Battery, Signal } from 'lucide-react';
+import { Battery, Signal, Thermometer, Clock } from 'lucide-react';
 
 interface Props {
-    history: { time: string, battery: number, rssi: number }[];
+    history: TelemetrySample[];
     current: RobotStatus;
+    compact?: boolean;
 }
 
-export const Telemetry: React.FC<Props> = ({ history, current }) => {
+const formatUptime = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return h > 0 ? `${h}h ${pad(m)}m ${pad(s)}s` : `${m}m ${pad(s)}s`;
+};
+
+export const Telemetry: React.FC<Props> = ({ history, current, compact = false }) => {
+    const batteryColor = current.battery < 20 ? "text-red-500" : "text-green-500";
+    const tempColor = current.temperature > 70 ? "text-red-500" : current.temperature > 55 ? "text-orange-400" : "text-amber-300";
+
+    // Single-row readout for the mobile landscape HUD
+    if (compact) {
+        return (
+            <div className="flex items-center gap-3 bg-black/50 border border-white/10 rounded-full px-3 py-1 font-mono text-[10px] text-gray-300 backdrop-blur-md">
+                <span className="flex items-center gap-1"><Battery size={12} className={batteryColor} />{current.battery}%</span>
+                <span className="flex items-center gap-1"><Signal size={12} className="text-cyan-500" />{current.rssi}dBm</span>
+                <span className="flex items-center gap-1"><Thermometer size={12} className={tempColor} />{current.temperature}°C</span>
+                <span className="flex items-center gap-1"><Clock size={12} className="text-gray-500" />{formatUptime(current.uptime)}</span>
+            </div>
+        );
+    }
+
     return (
         <div className="grid grid-cols-2 gap-4">
             {/* Battery Module */}
             <div className="bg-gray-900 border border-gray-800 rounded-lg p-4">
                 <div className="flex items-center justify-between mb-2">
                     <span className="text-gray-400 text-xs font-bold uppercase flex items-center gap-2">
-                        <Battery size={14} className={current.battery < 20 ? "text-red-500" : "text-green-500"} />
+                        <Battery size={14} className={batteryColor} />
                         Battery
                     </span>
                     <span className="text-xl font-mono">{current.battery}%</span>
@@ -75,6 +99,49 @@ export const Telemetry: React.FC<Props> = ({ history, current }) => {
                     </ResponsiveContainer>
                 </div>
             </div>
+
+            {/* Temperature Module */}
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-gray-400 text-xs font-bold uppercase flex items-center gap-2">
+                        <Thermometer size={14} className={tempColor} />
+                        Temp
+                    </span>
+                    <span className="text-xl font-mono">{current.temperature}°C</span>
+                </div>
+                <div className="h-24 w-full min-w-0">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <AreaChart data={history}>
+                            <defs>
+                                <linearGradient id="colorTemp" x1="0" y1="0" x2="0" y2="1">
+                                    <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.3}/>
+                                    <stop offset="95%" stopColor="#f59e0b" stopOpacity={0}/>
+                                </linearGradient>
+                            </defs>
+                            <Area 
+                                type="monotone" 
+                                dataKey="temperature"
+                                stroke="#f59e0b"
+                                fillOpacity={1} 
+                                fill="url(#colorTemp)"
+                                strokeWidth={2} 
+                                isAnimationActive={false}
+                            />
+                        </AreaChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+
+            {/* Uptime Module */}
+            <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 flex flex-col">
+                <span className="text-gray-400 text-xs font-bold uppercase flex items-center gap-2 mb-2">
+                    <Clock size={14} className="text-gray-500" />
+                    Uptime
+                </span>
+                <div className="flex-1 flex items-center justify-center">
+                    <span className="text-xl font-mono">{formatUptime(current.uptime)}</span>
+                </div>
+            </div>
         </div>
     );
-};
\ No newline at end of file
+};
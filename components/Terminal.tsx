@@ -1,10 +1,17 @@
 import React, { useEffect, useRef } from 'react';
-import { LogEntry } from '../types';
+import { CommandAck, LogEntry } from '../types';
 
 interface Props {
     logs: LogEntry[];
 }
 
+const ACK_BADGES: Record<CommandAck, { label: string, className: string, title: string }> = {
+    pending: { label: '…', className: 'text-gray-500', title: 'Waiting for the robot to acknowledge' },
+    applied: { label: '✓', className: 'text-green-500', title: 'Applied by the robot' },
+    rejected: { label: '✗', className: 'text-red-500', title: 'Rejected by the robot' },
+    lost: { label: '?', className: 'text-yellow-500', title: 'No acknowledgement received' }
+};
+
 export const Terminal: React.FC<Props> = ({ logs }) => {
     const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -26,6 +33,11 @@ export const Terminal: React.FC<Props> = ({ logs }) => {
                         log.type === 'error' ? 'text-red-400' :
                         log.type === 'success' ? 'text-green-400' : 'text-gray-300'
                     }>{log.message}</span>
+                    {log.ack && (
+                        <span className={`ml-2 ${ACK_BADGES[log.ack].className}`} title={ACK_BADGES[log.ack].title}>
+                            #{log.seq} {ACK_BADGES[log.ack].label}
+                        </span>
+                    )}
                 </div>
             ))}
             <div ref={bottomRef} />
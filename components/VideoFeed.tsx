@@ -1,27 +1,89 @@
-import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { AppConfig } from '../types';
-import { RefreshCw, ExternalLink, AlertCircle, MonitorPlay, ZoomIn, ZoomOut } from 'lucide-react';
+import React, { useMemo, useState, useEffect, useRef, useCallback } from 'react';
+import { AppConfig, CameraDiagnosis, StreamHealth } from '../types';
+import { cameraRetryDelay, diagnoseCamera, stalledDiagnosis, StreamMonitor, TAINTED_DIAGNOSIS } from '../services/cameraDiagnostics';
+import { MjpegStream } from '../services/mjpegStream';
+import { FrameSource } from '../services/frameCapture';
+import { RefreshCw, ExternalLink, AlertCircle, MonitorPlay, ZoomIn, ZoomOut, Stethoscope, Image, Film } from 'lucide-react';
 
 interface Props {
     config: AppConfig;
     fullscreen?: boolean;
     useIframe: boolean;
     setUseIframe: (val: boolean) => void;
+    useImgFallback: boolean;
+    setUseImgFallback: (val: boolean) => void;
+    sourceRef?: React.Ref<FrameSource>; // Lets the app grab frames from the canvas or <img>
+    onSignalChange?: (ok: boolean) => void;
+    onStream?: (stream: MjpegStream | null) => void; // Decoded frames, for overlays and recording
+    overlay?: React.ReactNode; // Drawn over the picture while the feed is up
+    onWarning?: (message: string) => void; // Problems that do not take the feed down
 }
 
-export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIframe, setUseIframe }) => {
+const FAULT_TITLES: Record<CameraDiagnosis['fault'], string> = {
+    'mixed-content': 'MIXED CONTENT BLOCKED',
+    auth: 'AUTH FAILED',
+    unreachable: 'CAMERA UNREACHABLE',
+    cors: 'CORS BLOCKED',
+    stalled: 'STREAM STALLED',
+    unknown: 'SIGNAL LOST'
+};
+
+// Re-probe on every few failures rather than every retry
+const DIAGNOSE_EVERY = 5;
+
+const formatAge = (ms: number | null) => ms === null ? '--' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIframe, setUseIframe, useImgFallback, setUseImgFallback, sourceRef, onSignalChange, onStream, overlay, onWarning }) => {
     const [hasError, setHasError] = useState(false);
     const [retryCount, setRetryCount] = useState(0);
     const [iframeScale, setIframeScale] = useState(0.5); // Default 0.5 to fit typical streams
+    const [diagnosis, setDiagnosis] = useState<CameraDiagnosis | null>(null);
+    const [diagnosing, setDiagnosing] = useState(false);
+    const [health, setHealth] = useState<StreamHealth | null>(null);
+    const [tainted, setTainted] = useState(false);
+    const [nextRetrySec, setNextRetrySec] = useState(0);
     const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const failuresRef = useRef(0);
+    const diagnoseIdRef = useRef(0);
+    const localImgRef = useRef<HTMLImageElement | null>(null);
+    const localCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    // Set when the decoder fails before its first frame. Most often that is CORS, which a plain <img> does not need.
+    const [decoderFailed, setDecoderFailed] = useState(false);
+    // The CORS request for the <img> failed, so it is retried as a plain (tainted) load to tell a missing
+    // Access-Control-Allow-Origin apart from a camera that is down
+    const [corsFailed, setCorsFailed] = useState(false);
+    const [stream, setStream] = useState<MjpegStream | null>(null);
+    // Canvas mode decodes the MJPEG stream itself; <img> and iframe are the fallbacks
+    const decoding = !useIframe && !useImgFallback && !decoderFailed;
+
+    // Keep our own handle on the picture element while still filling the caller's ref
+    const attachSource = useCallback((el: FrameSource | null) => {
+        localImgRef.current = el instanceof HTMLImageElement ? el : null;
+        localCanvasRef.current = el instanceof HTMLCanvasElement ? el : null;
+        if (typeof sourceRef === 'function') sourceRef(el);
+        else if (sourceRef) (sourceRef as React.MutableRefObject<FrameSource | null>).current = el;
+    }, [sourceRef]);
 
     // Reset state when config changes
     useEffect(() => {
         setHasError(false);
         setRetryCount(0);
+        setDiagnosis(null);
+        setHealth(null);
+        setTainted(false);
+        setDecoderFailed(false);
+        setCorsFailed(false);
+        setDiagnosing(false);
+        failuresRef.current = 0;
+        diagnoseIdRef.current++;
         if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = null;
     }, [config.cameraUrl, config.cameraUser, config.cameraPwd]);
 
+    useEffect(() => () => {
+        if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    }, []);
+
     // Construct URL
     const streamUrl = useMemo(() => {
         if (!config.cameraUrl) return '';
@@ -50,17 +112,106 @@ export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIfra
         return finalUrl;
     }, [config.cameraUrl, config.cameraUser, config.cameraPwd, retryCount, useIframe]);
 
-    const handleError = () => {
+    const runDiagnosis = useCallback(async () => {
+        const id = ++diagnoseIdRef.current;
+        setDiagnosing(true);
+        const result = await diagnoseCamera(config);
+        // Ignore results for a URL that has since changed
+        if (id !== diagnoseIdRef.current) return;
+        setDiagnosing(false);
+        setDiagnosis(result);
+    }, [config]);
+
+    // Reload with backoff; the known cause (if any) is kept on screen until the feed recovers
+    const scheduleRetry = (known: CameraDiagnosis | null) => {
         setHasError(true);
-        if (!retryTimeoutRef.current) {
-            retryTimeoutRef.current = setTimeout(() => {
-                setRetryCount(c => c + 1);
-                setHasError(false);
-                retryTimeoutRef.current = null;
-            }, 3000);
-        }
+        setHealth(null);
+        onSignalChange?.(false);
+        if (retryTimeoutRef.current) return;
+
+        const attempt = failuresRef.current++;
+        if (known) setDiagnosis(known);
+        else if (attempt % DIAGNOSE_EVERY === 0) runDiagnosis();
+
+        const delay = cameraRetryDelay(attempt);
+        setNextRetrySec(Math.round(delay / 1000));
+        retryTimeoutRef.current = setTimeout(() => {
+            setRetryCount(c => c + 1);
+            setCorsFailed(false);
+            setHasError(false);
+            retryTimeoutRef.current = null;
+        }, delay);
+    };
+
+    const handleError = () => {
+        if (!corsFailed) setCorsFailed(true);
+        else scheduleRetry(null);
     };
 
+    // Frame rate, last-frame age and stall detection while the IMG stream is up
+    useEffect(() => {
+        if (useIframe || decoding || hasError || !streamUrl) return;
+        const monitor = new StreamMonitor({
+            getImage: () => localImgRef.current,
+            onHealth: setHealth,
+            onStall: (ageMs) => scheduleRetry(stalledDiagnosis(ageMs)),
+            onTainted: () => {
+                setTainted(true);
+                setHealth(null);
+            }
+        });
+        monitor.start();
+        return () => monitor.stop();
+    }, [streamUrl, useIframe, decoding, hasError]);
+
+    // Canvas mode: every decoded frame is drawn, timed and handed to subscribers
+    useEffect(() => {
+        if (!decoding || hasError || !config.cameraUrl) return;
+        let first = true;
+        const monitor = new StreamMonitor({
+            onHealth: setHealth,
+            onStall: (ageMs) => scheduleRetry(stalledDiagnosis(ageMs))
+        });
+        // Once frames have flowed the camera is known to work here, so later failures retry instead
+        const stream = new MjpegStream({
+            onError: () => first ? setDecoderFailed(true) : scheduleRetry(null),
+            onListenerError: (e) => onWarning?.(`Video frame handler failed: ${e.message}`)
+        });
+        const unsubscribe = stream.subscribe((frame) => {
+            const canvas = localCanvasRef.current;
+            if (canvas) {
+                if (canvas.width !== frame.width || canvas.height !== frame.height) {
+                    canvas.width = frame.width;
+                    canvas.height = frame.height;
+                }
+                canvas.getContext('2d')?.drawImage(frame.bitmap, 0, 0);
+            }
+            monitor.markFrame();
+            if (first) {
+                first = false;
+                setDiagnosis(null);
+                failuresRef.current = 0;
+                onSignalChange?.(true);
+            }
+        });
+        stream.start(config);
+        monitor.start();
+        setStream(stream);
+        return () => {
+            unsubscribe();
+            stream.stop();
+            monitor.stop();
+            setStream(null);
+        };
+    }, [decoding, hasError, retryCount, config.cameraUrl, config.cameraUser, config.cameraPwd]);
+
+    // Separate from the decoder so a grid tile that gains or loses focus hands its stream over without restarting it
+    useEffect(() => {
+        if (!onStream || !stream) return;
+        onStream(stream);
+        return () => onStream(null);
+    }, [stream, onStream]);
+
     const handleManualRetry = () => {
         if (retryTimeoutRef.current) {
             clearTimeout(retryTimeoutRef.current);
@@ -134,11 +285,20 @@ export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIfra
                 <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-400 font-mono text-xs gap-3 p-6 text-center bg-gray-900/90 z-10 backdrop-blur-sm">
                     <div className="flex flex-col items-center gap-2 animate-pulse">
                         <AlertCircle className="text-red-500" size={24} />
-                        <span className="text-red-400 font-bold tracking-widest">SIGNAL LOST</span>
+                        <span className="text-red-400 font-bold tracking-widest">{diagnosis ? FAULT_TITLES[diagnosis.fault] : 'SIGNAL LOST'}</span>
                     </div>
+
+                    {diagnosis ? (
+                        <div className="flex flex-col gap-1 max-w-xs">
+                            <p className="text-[10px] text-gray-300">{diagnosis.detail}</p>
+                            <p className="text-[10px] text-cyan-500">{diagnosis.suggestion}</p>
+                        </div>
+                    ) : diagnosing && (
+                        <p className="text-[10px] text-gray-500">Diagnosing...</p>
+                    )}
                     
                     <p className="text-[10px] text-gray-500 max-w-[200px]">
-                        Retrying connection...
+                        Retrying in {nextRetrySec}s (attempt {failuresRef.current})
                     </p>
 
                     <div className="flex flex-wrap justify-center gap-2 mt-2 w-full max-w-xs">
@@ -149,6 +309,25 @@ export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIfra
                             <RefreshCw size={12} /> RETRY
                         </button>
 
+                        <button 
+                            onClick={runDiagnosis}
+                            disabled={diagnosing}
+                            className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded text-[10px] border border-gray-700 transition-colors disabled:opacity-50"
+                        >
+                            <Stethoscope size={12} /> DIAGNOSE
+                        </button>
+
+                        <button 
+                            onClick={() => {
+                                setDecoderFailed(false);
+                                setUseImgFallback(decoding);
+                            }}
+                            title={decoding ? 'Let the browser load the stream in a plain <img>' : decoderFailed ? 'The canvas decoder could not open this stream; try it again' : 'Decode the stream onto a canvas'}
+                            className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 px-3 py-2 rounded text-[10px] border border-gray-700 transition-colors"
+                        >
+                            {decoding ? <><Image size={12} /> IMG MODE</> : <><Film size={12} /> CANVAS MODE</>}
+                        </button>
+
                         <button 
                             onClick={() => setUseIframe(true)}
                             className="flex items-center gap-2 bg-cyan-900/30 hover:bg-cyan-900/50 text-cyan-400 px-3 py-2 rounded text-[10px] border border-cyan-800 transition-colors"
@@ -172,16 +351,27 @@ export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIfra
             );
         }
 
+        if (decoding) {
+            return <canvas ref={attachSource} className="w-full h-full object-contain block bg-black" />;
+        }
+
         return (
             <img 
-                key={retryCount} 
+                ref={attachSource}
+                key={`${retryCount}-${corsFailed}`}
                 src={streamUrl} 
                 alt="Live Stream" 
                 className="w-full h-full object-contain block bg-black"
                 onError={handleError}
-                onLoad={() => setHasError(false)}
+                onLoad={() => {
+                    setTainted(corsFailed);
+                    setHasError(false);
+                    setDiagnosis(null);
+                    failuresRef.current = 0;
+                    onSignalChange?.(true);
+                }}
                 referrerPolicy="no-referrer"
-                crossOrigin="anonymous" 
+                crossOrigin={corsFailed ? undefined : 'anonymous'}
             />
         );
     };
@@ -190,8 +380,10 @@ export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIfra
         return (
             <div className="absolute inset-0 bg-black flex items-center justify-center overflow-hidden z-0">
                 {renderContent()}
+                {!hasError && streamUrl && overlay}
                 <div className="absolute top-4 left-4 text-xs font-mono text-cyan-500/50 pointer-events-none z-20">
-                    LIVE FEED :: {useIframe ? `IFRAME_MODE [${iframeScale}x]` : (config.cameraUser ? 'AUTH_SECURE' : 'OPEN')}
+                    LIVE FEED :: {useIframe ? `IFRAME_MODE [${iframeScale}x]` : `${decoding ? 'MJPEG' : 'IMG'}_${config.cameraUser ? 'AUTH_SECURE' : 'OPEN'}`}
+                    {health && !hasError && !useIframe && ` :: ${health.fps} FPS / ${formatAge(health.lastFrameAgeMs)}`}
                 </div>
             </div>
         );
@@ -202,16 +394,29 @@ export const VideoFeed: React.FC<Props> = ({ config, fullscreen = false, useIfra
             <h2 className="text-cyan-400 font-mono mb-2 text-sm tracking-widest uppercase opacity-70">Live Visual Feed</h2>
             <div className="w-full max-w-[640px] aspect-[4/3] bg-black rounded-lg border-2 border-gray-800 shadow-2xl overflow-hidden relative group">
                 {renderContent()}
+                {!hasError && streamUrl && overlay}
                 
                 {/* Status Indicator overlay - Only show if working */}
                 {!hasError && streamUrl && (
-                    <div className="absolute top-2 right-2 flex gap-1 pointer-events-none z-10">
+                    <div className="absolute top-2 right-2 flex items-center gap-2 pointer-events-none z-10">
+                        {health && !useIframe && (
+                            <span className="font-mono text-[9px] text-gray-300 bg-black/50 px-1 rounded">
+                                {health.fps} FPS · {formatAge(health.lastFrameAgeMs)}
+                            </span>
+                        )}
                         <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse shadow-[0_0_8px_red]" />
                     </div>
                 )}
+
+                {/* Feed works but frames can't be read back for vision */}
+                {tainted && !hasError && !useIframe && (
+                    <div className="absolute bottom-0 inset-x-0 bg-amber-950/80 text-amber-300 font-mono text-[9px] px-2 py-1 z-10" title={TAINTED_DIAGNOSIS.suggestion}>
+                        {TAINTED_DIAGNOSIS.detail}
+                    </div>
+                )}
             </div>
             <p className="text-[10px] text-gray-600 font-mono mt-2 truncate max-w-md">
-                SRC: {streamUrl || 'DISCONNECTED'}
+                SRC: {(decoding ? config.cameraUrl : streamUrl) || 'DISCONNECTED'}
             </p>
         </div>
     );
@@ -0,0 +1,196 @@
+import React from 'react';
+import { ConnectionState, VisionSettings } from '../types';
+import { FrameGrabberStats } from '../services/frameGrabber';
+import { Mic, MicOff, Radio, PhoneOff, Hand, Eye, EyeOff } from 'lucide-react';
+
+interface Props {
+    state: ConnectionState;
+    micLevel: number;
+    talking: boolean;
+    handsFree: boolean;
+    onConnect: () => void;
+    onDisconnect: () => void;
+    onTalk: (active: boolean) => void;
+    onToggleHandsFree: () => void;
+    vision: VisionSettings;
+    visionStats: FrameGrabberStats | null;
+    visionUnavailableReason: string | null;
+    onVisionChange: (vision: VisionSettings) => void;
+    compact?: boolean;
+}
+
+const VISION_FPS_OPTIONS = [0.5, 1, 2];
+const VISION_KBPS_OPTIONS = [64, 128, 256];
+
+const visionStatusLabel = (stats: FrameGrabberStats | null) => {
+    switch (stats?.state) {
+        case 'streaming': return `${stats.kbps} kbps · ${stats.framesSent} sent${stats.framesSkipped ? ` · ${stats.framesSkipped} dropped` : ''}`;
+        case 'paused': return 'PAUSED: SIGNAL LOST';
+        case 'blocked': return 'BLOCKED: camera has no CORS';
+        default: return 'OFF';
+    }
+};
+
+export const VoicePanel: React.FC<Props> = ({ state, micLevel, talking, handsFree, onConnect, onDisconnect, onTalk, onToggleHandsFree, vision, visionStats, visionUnavailableReason, onVisionChange, compact = false }) => {
+    const live = state === ConnectionState.CONNECTED;
+    const connecting = state === ConnectionState.CONNECTING;
+    const transmitting = live && (talking || handsFree);
+    const visionBlocked = visionUnavailableReason !== null;
+    const toggleVision = () => onVisionChange({ ...vision, enabled: !vision.enabled });
+
+    const meter = (
+        <div className="h-1.5 w-full bg-gray-800 rounded-full overflow-hidden">
+            <div
+                className={`h-full transition-[width] duration-100 ${transmitting ? 'bg-purple-500' : 'bg-gray-600'}`}
+                style={{ width: `${Math.round(micLevel * 100)}%` }}
+            />
+        </div>
+    );
+
+    // Press-and-hold handlers shared by the desktop and mobile talk buttons
+    const talkHandlers = {
+        onMouseDown: () => onTalk(true),
+        onMouseUp: () => onTalk(false),
+        onMouseLeave: () => talking && onTalk(false),
+        onTouchStart: (e: React.TouchEvent) => { e.preventDefault(); onTalk(true); },
+        onTouchEnd: () => onTalk(false),
+        onTouchCancel: () => onTalk(false)
+    };
+
+    if (compact) {
+        return (
+            <div className="pointer-events-auto flex items-center gap-2 bg-black/60 border border-white/10 rounded-full p-1.5 backdrop-blur-md shadow-2xl">
+                {!live ? (
+                    <button
+                        onClick={onConnect}
+                        disabled={connecting}
+                        className={`w-11 h-11 rounded-full flex items-center justify-center border ${
+                            connecting ? 'border-yellow-500/50 text-yellow-400 animate-pulse' : 'border-purple-500/50 text-purple-400 bg-purple-900/30'
+                        }`}
+                    >
+                        <Radio size={20} />
+                    </button>
+                ) : (
+                    <>
+                        <button
+                            onClick={onToggleHandsFree}
+                            className={`w-9 h-9 rounded-full flex items-center justify-center border ${handsFree ? 'border-purple-400 text-purple-300 bg-purple-900/50' : 'border-white/10 text-gray-500'}`}
+                        >
+                            <Hand size={16} />
+                        </button>
+                        <button
+                            {...(handsFree ? {} : talkHandlers)}
+                            className={`w-14 h-14 rounded-full flex items-center justify-center border-2 transition-transform ${
+                                transmitting ? 'bg-purple-600 border-purple-300 text-white scale-110' : 'bg-gray-800 border-white/10 text-gray-400'
+                            }`}
+                        >
+                            {transmitting ? <Mic size={24} /> : <MicOff size={24} />}
+                        </button>
+                        <div className="w-12">{meter}</div>
+                        <button
+                            onClick={toggleVision}
+                            disabled={visionBlocked}
+                            className={`w-9 h-9 rounded-full flex items-center justify-center border ${
+                                visionBlocked ? 'border-white/5 text-gray-700' :
+                                vision.enabled ? (visionStats?.state === 'streaming' ? 'border-purple-400 text-purple-300 bg-purple-900/50' : 'border-yellow-500/50 text-yellow-400 animate-pulse') :
+                                'border-white/10 text-gray-500'
+                            }`}
+                        >
+                            {vision.enabled ? <Eye size={16} /> : <EyeOff size={16} />}
+                        </button>
+                        <button
+                            onClick={onDisconnect}
+                            className="w-9 h-9 rounded-full flex items-center justify-center border border-red-900 text-red-400"
+                        >
+                            <PhoneOff size={16} />
+                        </button>
+                    </>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 shadow-lg flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-gray-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+                    <Radio size={16} className={live ? 'text-purple-400' : 'text-gray-600'} /> Voice Link
+                </h3>
+                <button
+                    onClick={live ? onDisconnect : onConnect}
+                    disabled={connecting}
+                    className={`px-3 py-1 rounded text-[10px] font-bold border transition-colors ${
+                        live ? 'bg-red-900/30 text-red-400 border-red-900 hover:bg-red-900/50' :
+                        connecting ? 'bg-yellow-900/20 text-yellow-500 border-yellow-900 animate-pulse' :
+                        'bg-purple-900/30 text-purple-400 border-purple-900 hover:bg-purple-900/50'
+                    }`}
+                >
+                    {live ? 'DISCONNECT' : connecting ? 'CONNECTING...' : 'CONNECT'}
+                </button>
+            </div>
+
+            <div className="flex items-center gap-3">
+                <button
+                    {...(live && !handsFree ? talkHandlers : {})}
+                    disabled={!live || handsFree}
+                    className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-lg border font-bold text-xs select-none transition-colors ${
+                        transmitting ? 'bg-purple-600 border-purple-400 text-white' :
+                        live ? 'bg-gray-800 border-gray-700 text-gray-300 hover:border-purple-500' :
+                        'bg-gray-800/50 border-gray-800 text-gray-600 cursor-not-allowed'
+                    }`}
+                >
+                    {transmitting ? <Mic size={16} /> : <MicOff size={16} />}
+                    {handsFree ? 'OPEN MIC' : talking ? 'TRANSMITTING' : 'HOLD TO TALK'}
+                </button>
+                <button
+                    onClick={onToggleHandsFree}
+                    disabled={!live}
+                    title="Hands-free (open mic)"
+                    className={`p-3 rounded-lg border transition-colors ${
+                        handsFree ? 'bg-purple-900/50 border-purple-500 text-purple-300' : 'bg-gray-800 border-gray-700 text-gray-500'
+                    }`}
+                >
+                    <Hand size={16} />
+                </button>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] text-gray-500 font-mono w-8">MIC</span>
+                {meter}
+            </div>
+
+            {/* Camera Vision */}
+            <div className="border-t border-gray-800 pt-3 flex flex-col gap-2 text-[10px] font-mono">
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={toggleVision}
+                        disabled={visionBlocked}
+                        className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+                            visionBlocked ? 'border-gray-800 text-gray-600 cursor-not-allowed' :
+                            vision.enabled ? 'bg-purple-900/40 border-purple-700 text-purple-300' : 'border-gray-700 text-gray-500 hover:border-gray-500'
+                        }`}
+                    >
+                        {vision.enabled ? <Eye size={12} /> : <EyeOff size={12} />} CAMERA
+                    </button>
+                    <select
+                        value={vision.fps}
+                        onChange={e => onVisionChange({ ...vision, fps: Number(e.target.value) })}
+                        className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300 outline-none"
+                    >
+                        {VISION_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                    </select>
+                    <select
+                        value={vision.maxKbps}
+                        onChange={e => onVisionChange({ ...vision, maxKbps: Number(e.target.value) })}
+                        className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300 outline-none"
+                    >
+                        {VISION_KBPS_OPTIONS.map(kbps => <option key={kbps} value={kbps}>≤{kbps} kbps</option>)}
+                    </select>
+                </div>
+                <span className={visionStats?.state === 'streaming' ? 'text-purple-400' : visionStats && visionStats.state !== 'off' ? 'text-yellow-500' : 'text-gray-600'}>
+                    {visionUnavailableReason ?? (live ? visionStatusLabel(visionStats) : vision.enabled ? 'Starts when voice link is up' : 'OFF')}
+                </span>
+            </div>
+        </div>
+    );
+};
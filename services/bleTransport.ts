@@ -0,0 +1,145 @@
+import type { Transport, TransportConnection, TransportHandlers } from "./transport";
+import { LineFramer } from "./transport";
+
+// The slice of the Web Bluetooth API used here (not yet in TypeScript's DOM lib)
+interface CharacteristicLike extends EventTarget {
+  readonly value?: DataView;
+  startNotifications(): Promise<CharacteristicLike>;
+  writeValueWithoutResponse(value: Uint8Array): Promise<void>;
+}
+
+interface GattServerLike {
+  readonly connected: boolean;
+  connect(): Promise<GattServerLike>;
+  disconnect(): void;
+  getPrimaryService(uuid: string): Promise<{ getCharacteristic(uuid: string): Promise<CharacteristicLike> }>;
+}
+
+interface BluetoothDeviceLike extends EventTarget {
+  readonly id: string;
+  readonly name?: string;
+  readonly gatt?: GattServerLike;
+}
+
+interface BluetoothLike {
+  requestDevice(options: { filters: { services: string[] }[] }): Promise<BluetoothDeviceLike>;
+}
+
+// Nordic UART Service. RX/TX are named from the robot's side: we write RX and get notified on TX.
+const NUS_SERVICE = '6e400001-b5a3-f393-e0a9-e50e24dcca9e';
+const NUS_RX = '6e400002-b5a3-f393-e0a9-e50e24dcca9e';
+const NUS_TX = '6e400003-b5a3-f393-e0a9-e50e24dcca9e';
+// Web Bluetooth doesn't expose the negotiated MTU; 20 bytes fits the default one
+const CHUNK_BYTES = 20;
+
+// Drive frames are only worth sending while they are the latest one
+const isMoveFrame = (frame: string | ArrayBuffer) => {
+  if (typeof frame !== 'string') return false;
+  try {
+    return JSON.parse(frame).cmd === 'move';
+  } catch {
+    return false;
+  }
+};
+
+const getBluetooth = (): BluetoothLike | undefined => (navigator as Navigator & { bluetooth?: BluetoothLike }).bluetooth;
+
+// Bluetooth LE to an ESP32-S3 running a NUS bridge (Chrome/Edge). Newline-delimited JSON, like the serial transport.
+export class BleTransport implements Transport {
+  readonly kind = 'ble';
+  readonly binary = false;
+  private device: BluetoothDeviceLike | null = null;
+
+  describe() {
+    return this.device ? `BLE ${this.device.name ?? this.device.id}` : 'BLE (choose device)';
+  }
+
+  open(handlers: TransportHandlers): TransportConnection {
+    const framer = new LineFramer();
+    let device: BluetoothDeviceLike | null = null;
+    let rx: CharacteristicLike | null = null;
+    let tx: CharacteristicLike | null = null;
+    // Writes must not overlap, so frames wait here and go out one after another. A link this slow
+    // falls behind the keepalive, so a new move replaces any move still waiting (its ack is then lost)
+    // and a stop never sits behind stale motion.
+    let queue: { bytes: Uint8Array; move: boolean }[] = [];
+    let writing = false;
+    let open = false;
+    let finished = false;
+
+    const onNotify = () => {
+      const value = tx?.value;
+      if (value) framer.push(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)).forEach(handlers.onFrame);
+    };
+
+    const finish = (detail: string) => {
+      if (finished) return;
+      finished = true;
+      open = false;
+      queue = [];
+      tx?.removeEventListener('characteristicvaluechanged', onNotify);
+      device?.removeEventListener('gattserverdisconnected', onDisconnected);
+      if (device?.gatt?.connected) device.gatt.disconnect();
+      handlers.onClose(detail);
+    };
+
+    const onDisconnected = () => finish('BLE device disconnected');
+
+    const pump = async (characteristic: CharacteristicLike) => {
+      if (writing) return;
+      writing = true;
+      try {
+        while (open && queue.length > 0) {
+          const { bytes } = queue.shift()!;
+          // A frame already started is finished, or the robot would see half a line
+          for (let i = 0; i < bytes.length && open; i += CHUNK_BYTES) {
+            await characteristic.writeValueWithoutResponse(bytes.slice(i, i + CHUNK_BYTES));
+          }
+        }
+      } catch (e: any) {
+        handlers.onError(`BLE write failed: ${e?.message || e}`);
+        finish('BLE write failed');
+      } finally {
+        writing = false;
+      }
+    };
+
+    const run = async () => {
+      const bluetooth = getBluetooth();
+      if (!bluetooth) throw new Error('Web Bluetooth is not supported in this browser (use Chrome or Edge)');
+      // The chooser needs the LINK click's user gesture, so it only appears the first time
+      if (!this.device) this.device = await bluetooth.requestDevice({ filters: [{ services: [NUS_SERVICE] }] });
+      device = this.device;
+      if (!device.gatt) throw new Error('Device has no GATT server');
+      device.addEventListener('gattserverdisconnected', onDisconnected);
+
+      const server = await device.gatt.connect();
+      const service = await server.getPrimaryService(NUS_SERVICE);
+      rx = await service.getCharacteristic(NUS_RX);
+      tx = await service.getCharacteristic(NUS_TX);
+      tx.addEventListener('characteristicvaluechanged', onNotify);
+      await tx.startNotifications();
+      if (finished) return;
+      open = true;
+      handlers.onOpen();
+    };
+
+    run().catch((e: any) => {
+      if (finished) return;
+      handlers.onError(e?.name === 'NotFoundError' ? 'No BLE device selected' : `BLE: ${e?.message || e}`);
+      finish('BLE link failed');
+    });
+
+    return {
+      isOpen: () => open,
+      send: (frame) => {
+        if (!open || !rx) return;
+        const move = isMoveFrame(frame);
+        if (move) queue = queue.filter(queued => !queued.move);
+        queue.push({ bytes: framer.encode(frame), move });
+        pump(rx);
+      },
+      close: () => finish('Closed')
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { AppConfig, CameraDiagnosis, StreamHealth } from "../types";
+import { cameraRequest } from "./mjpegStream";
+
+const PROBE_TIMEOUT_MS = 5000;
+
+// Stream retry schedule: quick at first, then backing off so a dead camera isn't hammered
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+const RETRY_JITTER_RATIO = 0.2;
+
+// Frames are fingerprinted from a tiny downscaled copy, which is cheap enough to do often
+const SAMPLE_INTERVAL_MS = 40;
+const SAMPLE_WIDTH = 24;
+const SAMPLE_HEIGHT = 18;
+const FPS_WINDOW_MS = 2000;
+const REPORT_INTERVAL_MS = 500;
+// No new frame for this long means the MJPEG stream has stalled
+const STALL_TIMEOUT_MS = 5000;
+
+export const cameraRetryDelay = (attempt: number): number => {
+  const exp = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  const jitter = exp * RETRY_JITTER_RATIO * (Math.random() * 2 - 1);
+  return Math.round(Math.max(RETRY_BASE_MS, exp + jitter));
+};
+
+export const stalledDiagnosis = (ageMs: number): CameraDiagnosis => ({
+  fault: 'stalled',
+  detail: `Stream connected but no new frame for ${Math.round(ageMs / 1000)}s`,
+  suggestion: 'The feed is being reloaded. If it keeps stalling, lower the camera resolution or move closer to the access point.'
+});
+
+export const TAINTED_DIAGNOSIS: CameraDiagnosis = {
+  fault: 'cors',
+  detail: 'Frames are visible but cannot be read back (CORS-tainted canvas)',
+  suggestion: 'Have the camera send Access-Control-Allow-Origin so vision and scene analysis can use the frames.'
+};
+
+// Resolves once headers arrive; the body (endless for MJPEG) is abandoned
+const probe = async (url: string, init: RequestInit): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, cache: 'no-store', signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+};
+
+// Work out why the stream failed to load, from a CORS probe and, if that fails, an opaque one
+export const diagnoseCamera = async (config: AppConfig): Promise<CameraDiagnosis> => {
+  let target: { url: string, headers: Record<string, string> };
+  try {
+    target = cameraRequest(config);
+  } catch (e) {
+    return { fault: 'unknown', detail: `"${config.cameraUrl}" is not a valid URL`, suggestion: 'Enter the full stream URL, e.g. http://192.168.4.2:81/stream' };
+  }
+  const host = new URL(target.url).host;
+
+  if (window.location.protocol === 'https:' && target.url.startsWith('http:')) {
+    return {
+      fault: 'mixed-content',
+      detail: 'This page is HTTPS but the camera is plain HTTP, so the browser blocks it',
+      suggestion: 'Expose the camera through an HTTPS tunnel (Cloudflare/ngrok), or open this app over HTTP.'
+    };
+  }
+
+  try {
+    const resp = await probe(target.url, { mode: 'cors', headers: target.headers });
+    if (resp.status === 401 || resp.status === 403) {
+      return {
+        fault: 'auth',
+        detail: `Camera refused the credentials (HTTP ${resp.status})`,
+        suggestion: target.headers.Authorization ? 'Check the camera user and password in the profile.' : 'The camera needs a login: set the camera user and password in the profile.'
+      };
+    }
+    if (!resp.ok) {
+      return { fault: 'unknown', detail: `Camera answered HTTP ${resp.status}`, suggestion: 'Check the stream path (e.g. /stream or /video).' };
+    }
+    const type = resp.headers.get('content-type') ?? 'unknown content';
+    if (!type.startsWith('image/') && !type.startsWith('multipart/')) {
+      return { fault: 'unknown', detail: `Camera answered with ${type}, not an image stream`, suggestion: 'Point the URL at the MJPEG stream itself rather than the camera\'s web page.' };
+    }
+    return { fault: 'unknown', detail: `Camera is reachable and serving ${type}, but the image failed to load`, suggestion: 'Retry, or try Compat mode.' };
+  } catch (e) {
+    // A CORS failure and a dead host look the same to fetch; an opaque request tells them apart
+  }
+
+  try {
+    await probe(target.url, { mode: 'no-cors' });
+    return {
+      fault: 'cors',
+      detail: `${host} is reachable but sends no CORS headers, so the feed can't be loaded for frame capture`,
+      suggestion: 'Enable Access-Control-Allow-Origin on the camera server, or use Compat mode (view only, no AI vision).'
+    };
+  } catch (e: any) {
+    const timedOut = e?.name === 'AbortError';
+    return {
+      fault: 'unreachable',
+      detail: timedOut ? `${host} did not respond within ${PROBE_TIMEOUT_MS / 1000}s` : `Could not reach ${host}`,
+      suggestion: 'Check the camera is powered and on the same network, and that the IP/hostname is right.'
+    };
+  }
+};
+
+interface StreamMonitorConfig {
+  // <img> streams are sampled for changes; decoded streams report frames with markFrame() instead
+  getImage?: () => HTMLImageElement | null;
+  onHealth: (health: StreamHealth) => void;
+  onStall: (ageMs: number) => void;
+  onTainted?: () => void;
+}
+
+// Tracks frame rate, last-frame age and stalls. For an <img> the frames are detected by
+// fingerprinting a downscaled copy, so a perfectly still scene reads as low FPS.
+export class StreamMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private canvas = document.createElement('canvas');
+  private fingerprint = -1;
+  private frameTimes: number[] = [];
+  private startedAt = 0;
+  private lastFrameAt = 0;
+  private lastReport = 0;
+  private stalled = false;
+
+  constructor(private config: StreamMonitorConfig) {
+    this.canvas.width = SAMPLE_WIDTH;
+    this.canvas.height = SAMPLE_HEIGHT;
+  }
+
+  start() {
+    this.stop();
+    this.startedAt = Date.now();
+    this.lastFrameAt = 0;
+    this.fingerprint = -1;
+    this.frameTimes = [];
+    this.stalled = false;
+    this.timer = setInterval(() => this.tick(), SAMPLE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  markFrame() {
+    const now = Date.now();
+    this.lastFrameAt = now;
+    this.frameTimes.push(now);
+    this.stalled = false;
+  }
+
+  private sample(img: HTMLImageElement): number | null {
+    if (!img.complete || img.naturalWidth === 0) return null;
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const data = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data;
+    // FNV-1a over the pixels
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < data.length; i++) {
+      hash ^= data[i];
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  private tick() {
+    const now = Date.now();
+    const img = this.config.getImage?.();
+    if (img) {
+      let fingerprint: number | null;
+      try {
+        fingerprint = this.sample(img);
+      } catch (e) {
+        // SecurityError: the image is visible but the canvas is tainted. Frames can no longer be told
+        // apart, so rate and stall tracking end here; a dropped stream still surfaces as a load error.
+        this.stop();
+        this.config.onTainted?.();
+        return;
+      }
+      if (fingerprint !== null && fingerprint !== this.fingerprint) {
+        this.fingerprint = fingerprint;
+        this.markFrame();
+      }
+    }
+    this.frameTimes = this.frameTimes.filter(t => now - t < FPS_WINDOW_MS);
+
+    const age = now - (this.lastFrameAt || this.startedAt);
+    if (!this.stalled && age > STALL_TIMEOUT_MS) {
+      this.stalled = true;
+      this.config.onStall(age);
+    }
+
+    if (now - this.lastReport >= REPORT_INTERVAL_MS) {
+      this.lastReport = now;
+      this.config.onHealth({
+        fps: Math.round((this.frameTimes.length / (FPS_WINDOW_MS / 1000)) * 10) / 10,
+        lastFrameAgeMs: this.lastFrameAt ? now - this.lastFrameAt : null
+      });
+    }
+  }
+}
@@ -0,0 +1,27 @@
+// Where the camera picture is shown: the <img> fallback or the MJPEG decoder's canvas
+export type FrameSource = HTMLImageElement | HTMLCanvasElement;
+
+const sourceSize = (source: FrameSource): { width: number, height: number } | null => {
+  if (source instanceof HTMLImageElement) {
+    return source.complete && source.naturalWidth > 0 ? { width: source.naturalWidth, height: source.naturalHeight } : null;
+  }
+  return source.width > 0 && source.height > 0 ? { width: source.width, height: source.height } : null;
+};
+
+// Grab the currently displayed camera frame as a JPEG data URL.
+// An <img> must be loaded with crossOrigin="anonymous" and the camera must send CORS
+// headers, otherwise the canvas is tainted and toDataURL throws a SecurityError.
+export const captureFrame = (img: FrameSource | null, maxWidth = 640, quality = 0.8): string | null => {
+  const size = img && sourceSize(img);
+  if (!img || !size) return null;
+
+  const scale = Math.min(1, maxWidth / size.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.width * scale);
+  canvas.height = Math.round(size.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
@@ -0,0 +1,114 @@
+import { captureFrame, FrameSource } from "./frameCapture";
+
+// Frames sent to the Live API are small: the model only needs the gist of the scene
+const FRAME_WIDTH = 320;
+const MAX_QUALITY = 0.7;
+const MIN_QUALITY = 0.35;
+
+export type FrameGrabberState = 'off' | 'streaming' | 'paused' | 'blocked';
+
+export interface FrameGrabberStats {
+  state: FrameGrabberState;
+  framesSent: number;
+  framesSkipped: number;
+  kbps: number;
+}
+
+interface FrameGrabberConfig {
+  getImage: () => FrameSource | null;
+  isSignalLost: () => boolean;
+  onFrame: (base64Jpeg: string) => void;
+  onStats?: (stats: FrameGrabberStats) => void;
+}
+
+// Periodically snapshots the camera picture and hands JPEGs to the voice session.
+// A token bucket keeps the average upload under the bandwidth budget; when frames
+// don't fit, JPEG quality is lowered before frames start getting dropped.
+export class FrameGrabber {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private fps = 1;
+  private budgetBytesPerSec = 16000;
+  private tokens = 0;
+  private lastTick = 0;
+  private quality = MAX_QUALITY;
+  private state: FrameGrabberState = 'off';
+  private framesSent = 0;
+  private framesSkipped = 0;
+  private sentLog: { at: number, bytes: number }[] = [];
+
+  constructor(private config: FrameGrabberConfig) {}
+
+  start(fps: number, maxKbps: number) {
+    this.stop();
+    this.fps = Math.max(0.1, fps);
+    this.budgetBytesPerSec = (maxKbps * 1000) / 8;
+    this.tokens = this.budgetBytesPerSec;
+    this.lastTick = Date.now();
+    this.framesSent = 0;
+    this.framesSkipped = 0;
+    this.sentLog = [];
+    this.timer = setInterval(() => this.tick(), 1000 / this.fps);
+    this.report('streaming');
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.report('off');
+  }
+
+  private tick() {
+    const now = Date.now();
+    // Refill, capped at one second's worth so an idle period can't cause a burst
+    this.tokens = Math.min(this.budgetBytesPerSec, this.tokens + ((now - this.lastTick) / 1000) * this.budgetBytesPerSec);
+    this.lastTick = now;
+
+    if (this.config.isSignalLost()) {
+      this.report('paused');
+      return;
+    }
+
+    let dataUrl: string | null;
+    try {
+      dataUrl = captureFrame(this.config.getImage(), FRAME_WIDTH, this.quality);
+    } catch (e) {
+      // Tainted canvas: the camera doesn't send CORS headers
+      this.report('blocked');
+      return;
+    }
+    if (!dataUrl) {
+      this.report('paused');
+      return;
+    }
+
+    const base64 = dataUrl.replace(/^data:image\/jpeg;base64,/, '');
+    const bytes = Math.ceil(base64.length * 0.75);
+
+    if (bytes > this.tokens) {
+      this.framesSkipped++;
+      this.quality = Math.max(MIN_QUALITY, this.quality - 0.05);
+    } else {
+      this.tokens -= bytes;
+      this.framesSent++;
+      this.sentLog.push({ at: now, bytes });
+      this.config.onFrame(base64);
+      // Plenty of headroom left: creep quality back up
+      if (this.tokens > bytes * 2) this.quality = Math.min(MAX_QUALITY, this.quality + 0.02);
+    }
+
+    this.report('streaming');
+  }
+
+  private report(state: FrameGrabberState) {
+    this.state = state;
+    const now = Date.now();
+    this.sentLog = this.sentLog.filter(e => now - e.at < 5000);
+    const bytes = this.sentLog.reduce((sum, e) => sum + e.bytes, 0);
+    this.config.onStats?.({
+      state: this.state,
+      framesSent: this.framesSent,
+      framesSkipped: this.framesSkipped,
+      kbps: Math.round((bytes * 8) / 5 / 1000)
+    });
+  }
+}
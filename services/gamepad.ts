@@ -0,0 +1,155 @@
+import { Emote, GamepadAction, GamepadMapping } from "../types";
+
+// 20Hz is plenty for driving and keeps the command log readable
+const POLL_INTERVAL_MS = 50;
+// Quantize stick output so sensor noise doesn't produce a new command every poll
+const OUTPUT_STEP = 5;
+
+// Layout follows the W3C "standard" gamepad mapping (Xbox naming)
+export const DEFAULT_GAMEPAD_MAPPING: GamepadMapping = {
+  enabled: false,
+  throttleAxis: 1,    // Left stick Y
+  steerAxis: 2,       // Right stick X
+  invertThrottle: true,
+  invertSteer: false,
+  deadzone: 0.12,
+  curve: 1.8,
+  buttons: {
+    0: { type: 'emote', id: Emote.HAPPY },   // A
+    1: { type: 'emote', id: Emote.SAD },     // B
+    2: { type: 'emote', id: Emote.ACTION },  // X
+    3: { type: 'emote', id: Emote.LOVE },    // Y
+    12: { type: 'emote', id: Emote.ALERT },  // D-pad up
+    13: { type: 'emote', id: Emote.SLEEP },  // D-pad down
+    4: { type: 'servo', target: 'top' },     // LB
+    5: { type: 'servo', target: 'head' },    // RB
+    6: { type: 'servo', target: 'skirt' }    // LT
+  }
+};
+
+export const BUTTON_NAMES: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+  8: 'BACK', 9: 'START', 10: 'LS', 11: 'RS', 12: 'UP', 13: 'DOWN', 14: 'LEFT', 15: 'RIGHT', 16: 'HOME'
+};
+
+export const sameAction = (a: GamepadAction | null, b: GamepadAction | null) => {
+  if (!a || !b) return false;
+  if (a.type === 'emote') return b.type === 'emote' && a.id === b.id;
+  return b.type === 'servo' && a.target === b.target;
+};
+
+const bindings = (mapping: GamepadMapping) => Object.entries(mapping.buttons) as [string, GamepadAction][];
+
+export const findButton = (mapping: GamepadMapping, action: GamepadAction): number | null => {
+  const entry = bindings(mapping).find(([, a]) => sameAction(a, action));
+  return entry ? Number(entry[0]) : null;
+};
+
+export const unbindAction = (mapping: GamepadMapping, action: GamepadAction): GamepadMapping => {
+  return { ...mapping, buttons: Object.fromEntries(bindings(mapping).filter(([, a]) => !sameAction(a, action))) };
+};
+
+// Bind a button to an action, replacing whatever either of them was bound to before
+export const bindButton = (mapping: GamepadMapping, index: number, action: GamepadAction): GamepadMapping => {
+  const unbound = unbindAction(mapping, action);
+  return { ...unbound, buttons: { ...unbound.buttons, [index]: action } };
+};
+
+// Map raw stick deflection (-1..1) to -255..255 through the deadzone and response curve
+export const shapeAxis = (raw: number, deadzone: number, curve: number): number => {
+  const mag = Math.abs(raw);
+  if (mag <= deadzone) return 0;
+  const normalized = Math.min(1, (mag - deadzone) / (1 - deadzone));
+  const shaped = Math.pow(normalized, curve) * 255;
+  return Math.sign(raw) * Math.round(shaped / OUTPUT_STEP) * OUTPUT_STEP;
+};
+
+interface GamepadInputConfig {
+  getMapping: () => GamepadMapping;
+  onAxes: (throttle: number, steer: number) => void;
+  onButton: (index: number) => void;
+  onConnectionChange: (name: string | null) => void;
+}
+
+export class GamepadInput {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private padIndex: number | null = null;
+  private pressed: boolean[] = [];
+  private lastThrottle = 0;
+  private lastSteer = 0;
+
+  constructor(private config: GamepadInputConfig) {}
+
+  start() {
+    if (this.timer) return;
+    window.addEventListener('gamepadconnected', this.handleConnected);
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected);
+    // A pad that was already connected before the page loaded shows up on first poll
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    window.removeEventListener('gamepadconnected', this.handleConnected);
+    window.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+    this.release();
+    this.padIndex = null;
+  }
+
+  private handleConnected = (e: GamepadEvent) => {
+    if (this.padIndex !== null) return;
+    this.padIndex = e.gamepad.index;
+    this.pressed = [];
+    this.config.onConnectionChange(e.gamepad.id);
+  };
+
+  private handleDisconnected = (e: GamepadEvent) => {
+    if (e.gamepad.index !== this.padIndex) return;
+    this.padIndex = null;
+    this.release();
+    this.config.onConnectionChange(null);
+  };
+
+  // Zero the sticks so a yanked cable doesn't leave the rover driving
+  private release() {
+    if (this.lastThrottle !== 0 || this.lastSteer !== 0) {
+      this.lastThrottle = 0;
+      this.lastSteer = 0;
+      this.config.onAxes(0, 0);
+    }
+  }
+
+  private poll() {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    if (this.padIndex === null) {
+      const first = Array.from(pads).find(p => p && p.connected);
+      if (!first) return;
+      this.padIndex = first.index;
+      this.config.onConnectionChange(first.id);
+    }
+
+    const pad = pads[this.padIndex];
+    if (!pad || !pad.connected) return;
+
+    const mapping = this.config.getMapping();
+
+    // Buttons fire on the rising edge only
+    pad.buttons.forEach((button, i) => {
+      const down = button.pressed;
+      if (down && !this.pressed[i]) this.config.onButton(i);
+      this.pressed[i] = down;
+    });
+
+    const rawThrottle = (pad.axes[mapping.throttleAxis] ?? 0) * (mapping.invertThrottle ? -1 : 1);
+    const rawSteer = (pad.axes[mapping.steerAxis] ?? 0) * (mapping.invertSteer ? -1 : 1);
+    const throttle = shapeAxis(rawThrottle, mapping.deadzone, mapping.curve);
+    const steer = shapeAxis(rawSteer, mapping.deadzone, mapping.curve);
+
+    if (throttle !== this.lastThrottle || steer !== this.lastSteer) {
+      this.lastThrottle = throttle;
+      this.lastSteer = steer;
+      this.config.onAxes(throttle, steer);
+    }
+  }
+}
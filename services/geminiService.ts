@@ -1,5 +1,6 @@
 import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from "@google/genai";
-import { MotorCommand } from "../types";
+import { MotorCommand, ServoCommand, Emote } from "../types";
+import { MotionResult } from "./timedMotion";
 
 // Define the tool that Gemini can use to control the robot
 const moveRobotTool: FunctionDeclaration = {
@@ -26,11 +27,68 @@ const moveRobotTool: FunctionDeclaration = {
   }
 };
 
+const EMOTE_IDS: Record<string, Emote> = {
+  happy: Emote.HAPPY,
+  sad: Emote.SAD,
+  action: Emote.ACTION,
+  love: Emote.LOVE,
+  alert: Emote.ALERT,
+  sleep: Emote.SLEEP
+};
+
+const emoteTool: FunctionDeclaration = {
+  name: 'showEmote',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Show an expression on the robot head display. Use this when the user asks the robot to look, feel or act a certain way.',
+    properties: {
+      emote: {
+        type: Type.STRING,
+        description: 'Expression to show: happy, sad, action, love, alert, sleep',
+        enum: Object.keys(EMOTE_IDS)
+      }
+    },
+    required: ['emote']
+  }
+};
+
+const servoTool: FunctionDeclaration = {
+  name: 'setServo',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Open or close one of the robot body servos. The head can only open while the top is open, and the top cannot close while the head is open: open the top before the head, and close the head before the top.',
+    properties: {
+      target: {
+        type: Type.STRING,
+        description: 'Servo to move: skirt, top, head',
+        enum: ['skirt', 'top', 'head']
+      },
+      state: {
+        type: Type.STRING,
+        description: 'Target position: open or close',
+        enum: ['open', 'close']
+      }
+    },
+    required: ['target', 'state']
+  }
+};
+
+// Outcome of a non-motion tool call, reported back to Gemini as-is
+export interface ActionResult {
+  status: 'ok' | 'refused' | 'offline' | 'error';
+  error?: 'INTERLOCK' | 'WATCHDOG' | 'OFFLINE' | 'INVALID_ARGUMENT' | 'UNKNOWN_TOOL';
+  detail: string;
+}
+
 interface LiveSessionConfig {
   apiKey: string;
   onAudioData: (base64: string) => void;
   onTranscript: (text: string, isUser: boolean) => void;
-  onToolCall: (command: MotorCommand) => Promise<string>;
+  // Resolves when the motion has finished, so Gemini hears about completion or preemption
+  onToolCall: (command: MotorCommand, durationMs: number) => Promise<MotionResult>;
+  onEmote: (id: Emote) => Promise<ActionResult>;
+  onServo: (command: ServoCommand) => Promise<ActionResult>;
+  onMicLevel?: (level: number) => void; // 0..1 RMS of the latest mic buffer
   onClose: () => void;
   onError: (error: any) => void;
 }
@@ -43,6 +101,14 @@ export class GeminiLiveService {
   private outputContext: AudioContext | null = null;
   private outputQueue: { buffer: AudioBuffer, time: number }[] = [];
   private nextStartTime = 0;
+  private stream: MediaStream | null = null;
+  private session: any = null;
+  // Mic audio is only forwarded while active (push-to-talk held, or hands-free mode)
+  private micActive = false;
+  private inputTranscript = '';
+  private outputTranscript = '';
+  // Both disconnect() and the session's own onclose report the end; only the first one counts
+  private closed = false;
 
   constructor(private config: LiveSessionConfig) {
     this.outputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -54,17 +120,23 @@ export class GeminiLiveService {
     // Initialize Audio Input
     this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
     const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.stream = stream;
     
     this.sessionPromise = ai.live.connect({
       model: 'gemini-2.5-flash-native-audio-preview-12-2025',
       config: {
         responseModalities: [Modality.AUDIO],
-        tools: [{ functionDeclarations: [moveRobotTool] }],
+        tools: [{ functionDeclarations: [moveRobotTool, emoteTool, servoTool] }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
         systemInstruction: `You are the AI interface for an ESP32-S3 Rover. 
         Your hardware includes a JGB37-555 DC motor and an OV2640 camera.
         You accept voice commands to control the rover.
         Keep responses brief, military-style, and cool. Examples: "Affirmative", "Engaging motors", "Scanning sector".
-        If the user asks to move, use the moveRobot tool immediately.`,
+        If the user asks to move, use the moveRobot tool immediately.
+        Use showEmote for expressions and setServo for the skirt, top and head.
+        You may receive frames from the front camera. Use them to describe the surroundings and warn about obstacles ahead.
+        If a tool is refused, briefly tell the user why.`,
       },
       callbacks: {
         onopen: () => {
@@ -74,6 +146,9 @@ export class GeminiLiveService {
             
             this.inputProcessor.onaudioprocess = (e) => {
                 const inputData = e.inputBuffer.getChannelData(0);
+                this.config.onMicLevel?.(this.computeLevel(inputData));
+                if (!this.micActive) return;
+
                 const pcmBlob = this.createPcmBlob(inputData);
                 this.sessionPromise?.then(session => {
                     session.sendRealtimeInput({ media: pcmBlob });
@@ -86,10 +161,13 @@ export class GeminiLiveService {
         onmessage: async (msg: LiveServerMessage) => {
             // Handle Tool Calls (Robot Commands)
             if (msg.toolCall) {
-                for (const fc of msg.toolCall.functionCalls) {
+                for (const fc of msg.toolCall.functionCalls ?? []) {
+                    let result: MotionResult | ActionResult;
+
                     if (fc.name === 'moveRobot') {
                         const dir = fc.args.direction as string;
                         const spd = (fc.args.speed as number) || 200;
+                        const duration = Number(fc.args.duration) || 0;
                         
                         let throttle = 0;
                         let steer = 0;
@@ -109,19 +187,32 @@ export class GeminiLiveService {
                         };
                         
                         // Execute on robot via callback
-                        const result = await this.config.onToolCall(cmd);
-                        
-                        // Report back to Gemini
-                        this.sessionPromise?.then(session => {
-                            session.sendToolResponse({
-                                functionResponses: {
-                                    id: fc.id,
-                                    name: fc.name,
-                                    response: { result }
-                                }
-                            });
-                        });
+                        result = await this.config.onToolCall(cmd, duration);
+                    } else if (fc.name === 'showEmote') {
+                        const id = EMOTE_IDS[String(fc.args?.emote)];
+                        result = id
+                            ? await this.config.onEmote(id)
+                            : { status: 'error', error: 'INVALID_ARGUMENT', detail: `Unknown emote "${fc.args?.emote}"` };
+                    } else if (fc.name === 'setServo') {
+                        const target = fc.args?.target as ServoCommand['target'];
+                        const state = fc.args?.state as ServoCommand['state'];
+                        result = ['skirt', 'top', 'head'].includes(target) && ['open', 'close'].includes(state)
+                            ? await this.config.onServo({ cmd: 'servo', target, state })
+                            : { status: 'error', error: 'INVALID_ARGUMENT', detail: `Invalid servo request ${target}/${state}` };
+                    } else {
+                        result = { status: 'error', error: 'UNKNOWN_TOOL', detail: `Unknown tool ${fc.name}` };
                     }
+
+                    // Report back to Gemini
+                    this.sessionPromise?.then(session => {
+                        session.sendToolResponse({
+                            functionResponses: {
+                                id: fc.id,
+                                name: fc.name,
+                                response: { result }
+                            }
+                        });
+                    });
                 }
             }
 
@@ -135,23 +226,75 @@ export class GeminiLiveService {
             if (msg.serverContent?.modelTurn?.parts?.[0]?.text) {
                  this.config.onTranscript(msg.serverContent.modelTurn.parts[0].text, false);
             }
+
+            // Transcriptions arrive in fragments; emit whole utterances once the turn ends
+            if (msg.serverContent?.inputTranscription?.text) {
+                this.inputTranscript += msg.serverContent.inputTranscription.text;
+            }
+            if (msg.serverContent?.outputTranscription?.text) {
+                this.outputTranscript += msg.serverContent.outputTranscription.text;
+            }
+            if (msg.serverContent?.turnComplete) {
+                this.flushTranscripts();
+            }
         },
-        onclose: () => this.config.onClose(),
+        onclose: () => this.notifyClosed(),
         onerror: (err) => this.config.onError(err)
       }
     });
 
-    return this.sessionPromise;
+    this.session = await this.sessionPromise;
+    return this.session;
+  }
+
+  // Stream a camera frame so the model can see what the rover sees
+  sendVideoFrame(base64Jpeg: string) {
+    this.session?.sendRealtimeInput({
+      video: { mimeType: 'image/jpeg', data: base64Jpeg }
+    });
+  }
+
+  setMicActive(active: boolean) {
+    this.micActive = active;
+    // Releasing push-to-talk ends the user's turn, so show what we heard right away
+    if (!active && this.inputTranscript.trim()) {
+      this.config.onTranscript(this.inputTranscript.trim(), true);
+      this.inputTranscript = '';
+    }
   }
 
   async disconnect() {
+    this.micActive = false;
+    this.flushTranscripts();
     if (this.source) this.source.disconnect();
     if (this.inputProcessor) this.inputProcessor.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
     if (this.audioContext) await this.audioContext.close();
-    // Cannot explicitly close session in current SDK, just cleaning up local resources
+    if (this.outputContext) await this.outputContext.close();
+    this.session?.close();
+    this.notifyClosed();
+  }
+
+  private notifyClosed() {
+    if (this.closed) return;
+    this.closed = true;
     this.config.onClose();
   }
 
+  private flushTranscripts() {
+    if (this.inputTranscript.trim()) this.config.onTranscript(this.inputTranscript.trim(), true);
+    if (this.outputTranscript.trim()) this.config.onTranscript(this.outputTranscript.trim(), false);
+    this.inputTranscript = '';
+    this.outputTranscript = '';
+  }
+
+  private computeLevel(data: Float32Array) {
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+    // Speech RMS rarely exceeds ~0.3, so scale up for a usable meter
+    return Math.min(1, Math.sqrt(sum / data.length) * 4);
+  }
+
   // Helper to convert float32 audio to PCM16 for Gemini
   private createPcmBlob(data: Float32Array) {
     const l = data.length;
@@ -0,0 +1,127 @@
+import { MotorCommand, PingCommand } from "../types";
+
+// Keepalive cadence while motors are engaged. The firmware watchdog on the ESP32
+// should be set comfortably above this (e.g. 500ms).
+const KEEPALIVE_INTERVAL_MS = 200;
+const PING_INTERVAL_MS = 1000;
+// No pong for this long means the link is considered stale.
+const STALE_TIMEOUT_MS = 2500;
+// How long to wait for the first pong before warning that the firmware doesn't answer.
+const FIRST_PONG_GRACE_MS = 5000;
+
+interface HeartbeatConfig {
+  send: (cmd: MotorCommand | PingCommand) => boolean;
+  getMotion: () => MotorCommand | null;
+  onTrip: (reason: string) => void;
+  onRtt?: (rttMs: number) => void;
+  onLoss?: () => void;
+  onNoResponse?: () => void;
+}
+
+export class HeartbeatMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private seq = 0;
+  private pending = new Map<number, number>();
+  private startedAt = 0;
+  private lastTick = 0;
+  private lastPingAt = 0;
+  private lastPongAt = 0;
+  private armed = false;
+  private tripped = false;
+  private warnedNoResponse = false;
+
+  constructor(private config: HeartbeatConfig) {}
+
+  start() {
+    this.stop();
+    const now = Date.now();
+    this.startedAt = now;
+    this.lastTick = now;
+    this.lastPingAt = 0;
+    this.lastPongAt = 0;
+    this.armed = false;
+    this.warnedNoResponse = false;
+    this.pending.clear();
+    this.timer = setInterval(() => this.tick(), KEEPALIVE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Clears a trip once the operator has acknowledged it. Returns false if the link is still stale.
+  reset(): boolean {
+    if (!this.isHealthy()) return false;
+    this.tripped = false;
+    return true;
+  }
+
+  isTripped() {
+    return this.tripped;
+  }
+
+  isHealthy() {
+    return this.armed && Date.now() - this.lastPongAt < STALE_TIMEOUT_MS;
+  }
+
+  handlePong(seq: number) {
+    const now = Date.now();
+    // A pong for a ping already counted as lost still shows the link is alive, but gives no RTT sample
+    const sentAt = this.pending.get(seq);
+    this.pending.delete(seq);
+    if (sentAt !== undefined) {
+      this.config.onRtt?.(now - sentAt);
+    }
+    this.lastPongAt = now;
+    this.armed = true;
+  }
+
+  private tick() {
+    const now = Date.now();
+
+    // A gap this long means the tab was frozen or throttled; the robot has been
+    // running blind, so treat it the same as a dead link.
+    if (this.armed && now - this.lastTick > STALE_TIMEOUT_MS) {
+      this.trip(`Control loop stalled for ${now - this.lastTick}ms`);
+    }
+    this.lastTick = now;
+
+    if (this.armed && now - this.lastPongAt > STALE_TIMEOUT_MS) {
+      this.trip(`No heartbeat for ${now - this.lastPongAt}ms`);
+    }
+
+    if (!this.armed && !this.warnedNoResponse && now - this.startedAt > FIRST_PONG_GRACE_MS) {
+      this.warnedNoResponse = true;
+      this.config.onNoResponse?.();
+    }
+
+    if (now - this.lastPingAt >= PING_INTERVAL_MS) {
+      this.lastPingAt = now;
+      this.seq = (this.seq + 1) % 0xFFFF;
+      const ping: PingCommand = { cmd: 'ping', seq: this.seq, t: now };
+      if (this.config.send(ping)) {
+        this.pending.set(this.seq, now);
+      }
+      // Drop pings that will never be answered
+      for (const [seq, sentAt] of this.pending) {
+        if (now - sentAt > STALE_TIMEOUT_MS) {
+          this.pending.delete(seq);
+          this.config.onLoss?.();
+        }
+      }
+    }
+
+    // Re-send the active motion so the firmware watchdog stays fed
+    const motion = this.config.getMotion();
+    if (!this.tripped && motion && (motion.throttle !== 0 || motion.steer !== 0)) {
+      this.config.send(motion);
+    }
+  }
+
+  private trip(reason: string) {
+    if (this.tripped) return;
+    this.tripped = true;
+    this.config.onTrip(reason);
+  }
+}
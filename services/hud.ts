@@ -0,0 +1,107 @@
+import { HudLayout, HudSettings, MotorCommand } from "../types";
+
+// Mobile leaves out what the touch controls already show and keeps the centre clear for the thumbs
+export const HUD_PRESETS: Record<HudLayout, HudSettings['elements']> = {
+  desktop: {
+    vector: true,
+    speedLimit: true,
+    battery: true,
+    rssi: true,
+    servos: true,
+    latency: true,
+    crosshair: true,
+    drivePath: true
+  },
+  mobile: {
+    vector: false,
+    speedLimit: true,
+    battery: true,
+    rssi: true,
+    servos: false,
+    latency: true,
+    crosshair: true,
+    drivePath: true
+  }
+};
+
+export const defaultHudSettings = (layout: HudLayout): HudSettings => ({
+  enabled: true,
+  layout,
+  elements: HUD_PRESETS[layout]
+});
+
+// Rover geometry and camera placement used to project the path onto the picture
+const WHEEL_BASE = 0.18;       // m
+const TRACK_HALF_WIDTH = 0.1;  // m, guide lines sit on the outside of the wheels
+const CAMERA_HEIGHT = 0.12;    // m above the ground
+const CAMERA_SETBACK = 0.15;   // m from the camera to the front bumper
+const HORIZON = 0.45;          // Fraction of the picture height
+const MIN_PATH_M = 0.4;
+const MAX_PATH_M = 1.6;
+const PATH_STEPS = 16;
+
+export interface PathPoint {
+  x: number;  // Pixels
+  y: number;
+}
+
+export interface DrivePath {
+  left: PathPoint[];
+  right: PathPoint[];
+  // Distance marks across the path, every half metre
+  ticks: { from: PathPoint, to: PathPoint, metres: number }[];
+  reversing: boolean;
+}
+
+// Ground point (metres left of centre, metres ahead) to screen pixels with a pinhole camera
+const project = (left: number, ahead: number, width: number, height: number): PathPoint => {
+  const horizon = height * HORIZON;
+  // Focal length chosen so the bumper line lands on the bottom edge
+  const focal = ((height - horizon) * CAMERA_SETBACK) / CAMERA_HEIGHT;
+  const depth = ahead + CAMERA_SETBACK;
+  return {
+    x: width / 2 - (focal * left) / depth,
+    y: horizon + (focal * CAMERA_HEIGHT) / depth
+  };
+};
+
+// Where the wheels will go if the current command is held, as guide lines in screen space.
+// Uses the same mixing as the firmware: positive steer speeds up the left wheel.
+export const projectDrivePath = (motion: MotorCommand | null, width: number, height: number): DrivePath => {
+  const throttle = motion?.throttle ?? 0;
+  const steer = motion?.steer ?? 0;
+  const leftWheel = Math.max(-255, Math.min(255, throttle + steer));
+  const rightWheel = Math.max(-255, Math.min(255, throttle - steer));
+  const forward = (leftWheel + rightWheel) / 2;
+  const reversing = forward < 0;
+
+  // Reversing or spinning in place: show where straight ahead is. Tight turns are drawn as
+  // pivoting on a wheel and stop at a quarter turn, past which the path leaves the picture.
+  const rawCurvature = forward > 0 ? (rightWheel - leftWheel) / (WHEEL_BASE * forward) : 0;
+  const curvature = Math.max(-1 / TRACK_HALF_WIDTH, Math.min(1 / TRACK_HALF_WIDTH, rawCurvature));
+  const reach = MIN_PATH_M + (MAX_PATH_M - MIN_PATH_M) * (Math.max(0, forward) / 255);
+  const length = curvature === 0 ? reach : Math.min(reach, Math.PI / 2 / Math.abs(curvature));
+
+  const at = (distance: number, offset: number): PathPoint => {
+    const heading = curvature * distance;
+    const centreLeft = Math.abs(curvature) < 1e-6 ? 0 : (1 - Math.cos(heading)) / curvature;
+    const centreAhead = Math.abs(curvature) < 1e-6 ? distance : Math.sin(heading) / curvature;
+    // Offset along the left-pointing normal of the heading
+    return project(centreLeft + offset * Math.cos(heading), centreAhead - offset * Math.sin(heading), width, height);
+  };
+
+  const left: PathPoint[] = [];
+  const right: PathPoint[] = [];
+  for (let i = 0; i <= PATH_STEPS; i++) {
+    const distance = (length * i) / PATH_STEPS;
+    left.push(at(distance, TRACK_HALF_WIDTH));
+    right.push(at(distance, -TRACK_HALF_WIDTH));
+  }
+
+  const ticks: DrivePath['ticks'] = [];
+  for (let metres = 0.5; metres <= length; metres += 0.5) {
+    ticks.push({ from: at(metres, TRACK_HALF_WIDTH), to: at(metres, -TRACK_HALF_WIDTH), metres });
+  }
+
+  return { left, right, ticks, reversing };
+};
@@ -0,0 +1,59 @@
+import { LatencyThresholds, LinkLevel, LinkQuality } from "../types";
+
+// 20 pings at the heartbeat's 1Hz: the last ~20 seconds
+const WINDOW_SIZE = 20;
+// RFC 3550 style smoothing for the jitter estimate
+const JITTER_GAIN = 1 / 16;
+
+export const DEFAULT_LATENCY_THRESHOLDS: LatencyThresholds = {
+  warnMs: 150,
+  criticalMs: 400
+};
+
+export const linkLevel = (quality: LinkQuality | null, thresholds: LatencyThresholds): LinkLevel => {
+  if (!quality || quality.avgRttMs === null) return 'unknown';
+  if (quality.avgRttMs >= thresholds.criticalMs) return 'critical';
+  if (quality.avgRttMs >= thresholds.warnMs) return 'warn';
+  return 'good';
+};
+
+// Collects ping outcomes from the heartbeat and summarizes them
+export class LinkQualityTracker {
+  private outcomes: (number | null)[] = [];   // Round trip in ms, or null for a lost ping
+  private lastRtt: number | null = null;
+  private jitter = 0;
+
+  reset() {
+    this.outcomes = [];
+    this.lastRtt = null;
+    this.jitter = 0;
+  }
+
+  addRtt(rttMs: number) {
+    if (this.lastRtt !== null) {
+      this.jitter += (Math.abs(rttMs - this.lastRtt) - this.jitter) * JITTER_GAIN;
+    }
+    this.lastRtt = rttMs;
+    this.push(rttMs);
+  }
+
+  addLoss() {
+    this.push(null);
+  }
+
+  snapshot(): LinkQuality {
+    const rtts = this.outcomes.filter((o): o is number => o !== null);
+    const lost = this.outcomes.length - rtts.length;
+    return {
+      rttMs: this.lastRtt,
+      avgRttMs: rtts.length > 0 ? Math.round(rtts.reduce((sum, r) => sum + r, 0) / rtts.length) : null,
+      jitterMs: Math.round(this.jitter),
+      lossPct: this.outcomes.length > 0 ? Math.round((lost / this.outcomes.length) * 100) : 0,
+      samples: this.outcomes.length
+    };
+  }
+
+  private push(outcome: number | null) {
+    this.outcomes = [...this.outcomes.slice(-(WINDOW_SIZE - 1)), outcome];
+  }
+}
@@ -0,0 +1,208 @@
+import { Macro, MacroPlayback, MacroStep, MotorCommand, RobotCommand, ServoPositions } from "../types";
+import { checkServoInterlock } from "./servoInterlock";
+
+export const MACROS_STORAGE_KEY = 'rover_cmd_macros_v1';
+
+const STOP: MotorCommand = { cmd: 'move', throttle: 0, steer: 0 };
+// Drive input arrives at up to 50Hz; moves closer together than this are merged while recording
+const MIN_MOVE_GAP_MS = 100;
+// Keys the manual controls already use
+export const RESERVED_KEYS = ['w', 'a', 's', 'd', 'arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' '];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const createMacro = (name: string, steps: MacroStep[] = []): Macro => ({
+  id: newId(),
+  name,
+  steps,
+  loop: false,
+  hotkey: null,
+  mobileButton: false
+});
+
+export const loadMacros = (): Macro[] => {
+  try {
+    const saved = localStorage.getItem(MACROS_STORAGE_KEY);
+    const macros: Macro[] = saved ? JSON.parse(saved) : [];
+    // Fill in fields added after the macro was saved
+    return Array.isArray(macros) ? macros.map(m => ({ ...createMacro(m.name), ...m })) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const macroDuration = (macro: Macro) => macro.steps.reduce((sum, step) => sum + step.delayMs, 0);
+
+// Walks the servo steps from the given positions. Returns the first step that the interlock would refuse.
+export const validateMacro = (steps: MacroStep[], start: ServoPositions): string | null => {
+  let positions = start;
+  for (let i = 0; i < steps.length; i++) {
+    const { command } = steps[i];
+    if (command.cmd !== 'servo') continue;
+    const open = command.state === 'open';
+    const refusal = checkServoInterlock(positions, command.target, open);
+    if (refusal) return `Step ${i + 1}: ${refusal}`;
+    positions = { ...positions, [command.target]: open };
+  }
+  return null;
+};
+
+// Captures live driving as macro steps, keeping the gaps between commands
+export class MacroRecorder {
+  private steps: MacroStep[] = [];
+  private lastAt = 0;
+
+  record(command: RobotCommand) {
+    const now = Date.now();
+    const last = this.steps[this.steps.length - 1];
+    if (last && last.command.cmd === 'move' && command.cmd === 'move' && now - this.lastAt < MIN_MOVE_GAP_MS) {
+      last.command = command;
+      return;
+    }
+    this.steps.push({ delayMs: this.steps.length === 0 ? 0 : now - this.lastAt, command });
+    this.lastAt = now;
+  }
+
+  stepCount() {
+    return this.steps.length;
+  }
+
+  // A recording that ends mid-drive gets a stop so playback never leaves the robot moving
+  finish(): MacroStep[] {
+    const steps = this.steps;
+    const lastMove = [...steps].reverse().find(s => s.command.cmd === 'move');
+    if (lastMove && lastMove.command.cmd === 'move' && (lastMove.command.throttle !== 0 || lastMove.command.steer !== 0)) {
+      steps.push({ delayMs: Date.now() - this.lastAt, command: STOP });
+    }
+    this.steps = [];
+    return steps;
+  }
+}
+
+interface MacroPlayerConfig {
+  // Returns false if the command could not be delivered
+  send: (command: RobotCommand) => boolean;
+  getServoPositions: () => ServoPositions;
+  onPlayback: (playback: MacroPlayback | null) => void;
+  onFinished: (macro: Macro, completed: boolean, detail: string) => void;
+}
+
+// Plays one macro at a time. Pausing stops the motors and resumes the rest of the current wait.
+// Playback always ends with a stop, whether it completed, was aborted, hit a refused servo step or lost the link.
+export class MacroPlayer {
+  private macro: Macro | null = null;
+  private playback: MacroPlayback | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private dueAt = 0;
+  private remainingMs = 0;
+  private lastMotion: MotorCommand = STOP;
+
+  constructor(private config: MacroPlayerConfig) {}
+
+  getPlayback() {
+    return this.playback;
+  }
+
+  play(macro: Macro) {
+    this.abort('Superseded by another macro');
+    if (macro.steps.length === 0) {
+      this.config.onFinished(macro, false, 'Macro has no steps');
+      return;
+    }
+    if (macro.loop && macroDuration(macro) === 0) {
+      this.config.onFinished(macro, false, 'A looping macro needs at least one delay');
+      return;
+    }
+    const refusal = validateMacro(macro.steps, this.config.getServoPositions());
+    if (refusal) {
+      this.config.onFinished(macro, false, refusal);
+      return;
+    }
+    this.macro = macro;
+    this.lastMotion = STOP;
+    this.update({ macroId: macro.id, paused: false, step: 0, iteration: 1 });
+    this.schedule(macro.steps[0].delayMs);
+  }
+
+  pause() {
+    if (!this.playback || this.playback.paused) return;
+    this.clearTimer();
+    this.remainingMs = Math.max(0, this.dueAt - Date.now());
+    this.config.send(STOP);
+    this.update({ ...this.playback, paused: true });
+  }
+
+  resume() {
+    if (!this.playback?.paused) return;
+    if (!this.config.send(this.lastMotion)) {
+      this.end(false, 'Robot offline');
+      return;
+    }
+    this.update({ ...this.playback, paused: false });
+    this.schedule(this.remainingMs);
+  }
+
+  abort(reason = 'Aborted') {
+    if (this.playback) this.end(false, reason);
+  }
+
+  private schedule(delayMs: number) {
+    this.dueAt = Date.now() + delayMs;
+    this.timer = setTimeout(() => this.runStep(), delayMs);
+  }
+
+  private runStep() {
+    this.timer = null;
+    const macro = this.macro;
+    const playback = this.playback;
+    if (!macro || !playback) return;
+
+    const { command } = macro.steps[playback.step];
+    // Positions may have changed since the macro started, so every servo step is checked again
+    if (command.cmd === 'servo') {
+      const refusal = checkServoInterlock(this.config.getServoPositions(), command.target, command.state === 'open');
+      if (refusal) {
+        this.end(false, `Step ${playback.step + 1}: ${refusal}`);
+        return;
+      }
+    }
+    if (!this.config.send(command)) {
+      this.end(false, 'Robot offline');
+      return;
+    }
+    if (command.cmd === 'move') this.lastMotion = command;
+
+    let step = playback.step + 1;
+    let iteration = playback.iteration;
+    if (step >= macro.steps.length) {
+      if (!macro.loop) {
+        this.end(true, 'Completed');
+        return;
+      }
+      step = 0;
+      iteration++;
+    }
+    this.update({ ...playback, step, iteration });
+    this.schedule(macro.steps[step].delayMs);
+  }
+
+  private end(completed: boolean, detail: string) {
+    const macro = this.macro;
+    this.clearTimer();
+    this.macro = null;
+    this.update(null);
+    // Never leave the robot driving: the link keeps re-sending the last motion after the macro is gone
+    this.config.send(STOP);
+    if (macro) this.config.onFinished(macro, completed, detail);
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private update(playback: MacroPlayback | null) {
+    this.playback = playback;
+    this.config.onPlayback(playback);
+  }
+}
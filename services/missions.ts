@@ -0,0 +1,319 @@
+import { Emote, Mission, MissionRun, MissionStep, MissionStepKind, MotorCommand, RobotCommand, ServoPositions } from "../types";
+import { checkServoInterlock } from "./servoInterlock";
+import { MAX_DURATION_MS, MotionResult } from "./timedMotion";
+
+export const MISSIONS_STORAGE_KEY = 'rover_cmd_missions_v1';
+// Timed moves are capped by the executor, so steps are too
+export const MAX_STEP_MS = MAX_DURATION_MS;
+// A zero-length timed move would mean "keep moving", so drive steps need at least this long
+export const MIN_MOVE_MS = 1;
+
+const FILE_FORMAT = 'rover-mission';
+const FILE_VERSION = 1;
+const STOP: MotorCommand = { cmd: 'move', throttle: 0, steer: 0 };
+
+export const MISSION_STEP_KINDS: MissionStepKind[] = ['drive', 'pivot', 'servo', 'wait', 'emote', 'analyze'];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+};
+
+export const createMissionStep = (kind: MissionStepKind): MissionStep => {
+  const id = newId();
+  switch (kind) {
+    case 'drive': return { id, kind, direction: 'forward', speed: 150, durationMs: 1000 };
+    case 'pivot': return { id, kind, direction: 'left', speed: 150, durationMs: 500 };
+    case 'servo': return { id, kind, target: 'top', state: 'open' };
+    case 'wait': return { id, kind, durationMs: 1000 };
+    case 'emote': return { id, kind, emote: Emote.HAPPY };
+    case 'analyze': return { id, kind };
+  }
+};
+
+export const createMission = (name: string, steps: MissionStep[] = []): Mission => ({ id: newId(), name, steps });
+
+export const loadMissions = (): Mission[] => {
+  try {
+    const saved = localStorage.getItem(MISSIONS_STORAGE_KEY);
+    const missions: Mission[] = saved ? JSON.parse(saved) : [];
+    return Array.isArray(missions) ? missions : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// The command a step sends, or null for steps that only wait or look
+export const stepCommand = (step: MissionStep): RobotCommand | null => {
+  switch (step.kind) {
+    case 'drive': return { cmd: 'move', throttle: step.direction === 'forward' ? step.speed : -step.speed, steer: 0 };
+    case 'pivot': return { cmd: 'move', throttle: 0, steer: step.direction === 'left' ? -step.speed : step.speed };
+    case 'servo': return { cmd: 'servo', target: step.target, state: step.state };
+    case 'emote': return { cmd: 'emote', id: step.emote };
+    default: return null;
+  }
+};
+
+export const describeStep = (step: MissionStep): string => {
+  switch (step.kind) {
+    case 'drive': return `Drive ${step.direction} ${step.durationMs}ms at speed ${step.speed}`;
+    case 'pivot': return `Pivot ${step.direction} ${step.durationMs}ms at speed ${step.speed}`;
+    case 'servo': return `${step.state === 'open' ? 'Open' : 'Close'} ${step.target}`;
+    case 'wait': return `Wait ${step.durationMs}ms`;
+    case 'emote': return `Emote ${Emote[step.emote] ?? step.emote}`;
+    case 'analyze': return 'Analyze scene';
+  }
+};
+
+// Time spent driving and waiting; scene analysis takes as long as the model does
+export const missionDuration = (mission: Mission) =>
+  mission.steps.reduce((sum, step) => sum + ('durationMs' in step ? step.durationMs : 0), 0);
+
+// Walks the servo steps from the given positions. Returns the first step that the interlock would refuse.
+export const validateMission = (steps: MissionStep[], start: ServoPositions): string | null => {
+  let positions = start;
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    if (step.kind !== 'servo') continue;
+    const open = step.state === 'open';
+    const refusal = checkServoInterlock(positions, step.target, open);
+    if (refusal) return `Step ${i + 1}: ${refusal}`;
+    positions = { ...positions, [step.target]: open };
+  }
+  return null;
+};
+
+// --- JSON FILES ---
+
+export const exportMission = (mission: Mission): Blob => {
+  const steps = mission.steps.map(({ id, ...step }) => step);
+  return new Blob([JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, name: mission.name, steps }, null, 2)], { type: 'application/json' });
+};
+
+export const missionFileName = (mission: Mission) =>
+  `mission-${mission.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled'}.json`;
+
+// Rebuilds one step from untrusted JSON, clamping numbers into range
+const parseStep = (raw: any, index: number): MissionStep => {
+  const fail = (problem: string): never => { throw new Error(`Step ${index + 1}: ${problem}`); };
+  const oneOf = <T extends string>(value: unknown, options: T[], field: string): T =>
+    options.includes(value as T) ? value as T : fail(`${field} must be one of ${options.join(', ')}`);
+  if (!raw || typeof raw !== 'object') fail('not an object');
+  const step = createMissionStep(oneOf(raw.kind, MISSION_STEP_KINDS, 'kind'));
+
+  switch (step.kind) {
+    case 'drive':
+      step.direction = oneOf(raw.direction, ['forward', 'backward'], 'direction');
+      step.speed = clamp(raw.speed, 0, 255, step.speed);
+      step.durationMs = clamp(raw.durationMs, MIN_MOVE_MS, MAX_STEP_MS, step.durationMs);
+      break;
+    case 'pivot':
+      step.direction = oneOf(raw.direction, ['left', 'right'], 'direction');
+      step.speed = clamp(raw.speed, 0, 255, step.speed);
+      step.durationMs = clamp(raw.durationMs, MIN_MOVE_MS, MAX_STEP_MS, step.durationMs);
+      break;
+    case 'servo':
+      step.target = oneOf(raw.target, ['top', 'head', 'skirt'], 'target');
+      step.state = oneOf(raw.state, ['open', 'close'], 'state');
+      break;
+    case 'wait':
+      step.durationMs = clamp(raw.durationMs, 0, MAX_STEP_MS, step.durationMs);
+      break;
+    case 'emote':
+      if (Emote[raw.emote] === undefined || typeof raw.emote !== 'number') fail(`unknown emote ${raw.emote}`);
+      step.emote = raw.emote;
+      break;
+  }
+  if (raw.breakpoint === true) step.breakpoint = true;
+  return step;
+};
+
+// Throws with a readable message if the file is not a mission this version understands
+export const parseMission = (text: string): Mission => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON');
+  }
+  if (data?.format !== FILE_FORMAT) throw new Error('File is not a mission export');
+  if (data.version !== FILE_VERSION) throw new Error(`Unsupported mission version ${data.version}`);
+  if (!Array.isArray(data.steps)) throw new Error('Mission has no step list');
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported mission';
+  return createMission(name, data.steps.map(parseStep));
+};
+
+// --- RUNNER ---
+
+interface StepOutcome {
+  ok: boolean;
+  detail: string;
+}
+
+interface MissionRunnerConfig {
+  // Drives for the given time and resolves once the motors have stopped (see TimedMotionExecutor)
+  runMotion: (command: MotorCommand, durationMs: number) => Promise<MotionResult>;
+  cancelMotion: (reason: string) => void;
+  // Returns false if the command could not be delivered
+  send: (command: RobotCommand) => boolean;
+  getServoPositions: () => ServoPositions;
+  // Resolves true once a scene description came back. An aborted signal means the result is no longer wanted.
+  analyze: (signal: AbortSignal) => Promise<boolean>;
+  onRun: (run: MissionRun | null) => void;
+  onFinished: (mission: Mission, completed: boolean, detail: string) => void;
+}
+
+// Runs one mission at a time as a small state machine:
+//   running -> paused (single-step, breakpoint or pause request) -> running ... -> completed | aborted
+// Pausing waits for the current step to finish. Aborting cuts it short and stops the robot.
+export class MissionRunner {
+  private mission: Mission | null = null;
+  private run: MissionRun | null = null;
+  // Bumped on every start and end so a step that resolves late is ignored
+  private generation = 0;
+  // Cancels the step in progress when the run ends
+  private stepAbort: AbortController | null = null;
+
+  constructor(private config: MissionRunnerConfig) {}
+
+  getRun() {
+    return this.run;
+  }
+
+  isActive() {
+    return this.run?.state === 'running' || this.run?.state === 'paused';
+  }
+
+  start(mission: Mission, singleStep = false) {
+    this.abort('Superseded by another mission');
+    if (mission.steps.length === 0) {
+      this.config.onFinished(mission, false, 'Mission has no steps');
+      return;
+    }
+    const refusal = validateMission(mission.steps, this.config.getServoPositions());
+    if (refusal) {
+      this.config.onFinished(mission, false, refusal);
+      return;
+    }
+    this.mission = mission;
+    this.generation++;
+    const pauseFirst = singleStep || !!mission.steps[0].breakpoint;
+    this.update({ missionId: mission.id, state: pauseFirst ? 'paused' : 'running', step: 0, executing: false, singleStep, detail: pauseFirst ? 'Paused before step 1' : 'Started' });
+    if (!pauseFirst) this.execute(false);
+  }
+
+  // Debugger: run only the next step, then pause again
+  step() {
+    if (this.run?.state !== 'paused' || this.run.executing) return;
+    this.execute(true);
+  }
+
+  // Leave single-step mode and run to the end or the next breakpoint
+  resume() {
+    if (this.run?.state !== 'paused' || this.run.executing) return;
+    this.update({ ...this.run, singleStep: false });
+    this.execute(false);
+  }
+
+  // Takes effect once the current step has finished
+  pause() {
+    if (this.run?.state !== 'running') return;
+    this.update({ ...this.run, singleStep: true });
+  }
+
+  abort(reason = 'Aborted') {
+    if (this.isActive()) this.end(false, reason);
+  }
+
+  // Clears a finished run from the progress display
+  dismiss() {
+    if (this.run && !this.isActive()) this.update(null);
+  }
+
+  private async execute(once: boolean) {
+    const mission = this.mission;
+    const run = this.run;
+    if (!mission || !run) return;
+    const generation = this.generation;
+    const index = run.step;
+
+    this.update({ ...run, state: 'running', executing: true, detail: describeStep(mission.steps[index]) });
+    const stepAbort = new AbortController();
+    this.stepAbort = stepAbort;
+    const outcome = await this.runStep(mission.steps[index], stepAbort.signal);
+    if (this.stepAbort === stepAbort) this.stepAbort = null;
+    if (generation !== this.generation || !this.run) return;
+
+    if (!outcome.ok) {
+      this.end(false, `Step ${index + 1}: ${outcome.detail}`);
+      return;
+    }
+    const next = index + 1;
+    if (next >= mission.steps.length) {
+      this.end(true, 'Completed');
+      return;
+    }
+    // Read the latest run: pause() may have switched to single-step while this step ran
+    const pause = once || this.run.singleStep || !!mission.steps[next].breakpoint;
+    this.update({ ...this.run, state: pause ? 'paused' : 'running', step: next, executing: false, detail: outcome.detail });
+    if (!pause) this.execute(false);
+  }
+
+  private async runStep(step: MissionStep, signal: AbortSignal): Promise<StepOutcome> {
+    switch (step.kind) {
+      case 'drive':
+      case 'pivot': {
+        const result = await this.config.runMotion(stepCommand(step) as MotorCommand, step.durationMs);
+        return { ok: result.status === 'completed', detail: result.detail };
+      }
+      case 'servo': {
+        // Positions may have changed since the mission started, so the interlock is checked again
+        const refusal = checkServoInterlock(this.config.getServoPositions(), step.target, step.state === 'open');
+        if (refusal) return { ok: false, detail: refusal };
+        return this.sendStep(step);
+      }
+      case 'emote':
+        return this.sendStep(step);
+      case 'wait':
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, step.durationMs);
+          signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+        return { ok: true, detail: `Waited ${step.durationMs}ms` };
+      case 'analyze':
+        return (await this.config.analyze(signal))
+          ? { ok: true, detail: 'Scene analyzed' }
+          : { ok: false, detail: 'Scene analysis failed' };
+    }
+  }
+
+  private sendStep(step: MissionStep): StepOutcome {
+    return this.config.send(stepCommand(step)!)
+      ? { ok: true, detail: describeStep(step) }
+      : { ok: false, detail: 'Robot offline' };
+  }
+
+  private end(completed: boolean, detail: string) {
+    const mission = this.mission;
+    const run = this.run;
+    this.generation++;
+    this.stepAbort?.abort();
+    this.stepAbort = null;
+    this.mission = null;
+    if (!completed) {
+      this.config.cancelMotion(detail);
+      this.config.send(STOP);
+    }
+    if (run) this.update({ ...run, state: completed ? 'completed' : 'aborted', executing: false, detail });
+    if (mission) this.config.onFinished(mission, completed, detail);
+  }
+
+  private update(run: MissionRun | null) {
+    this.run = run;
+    this.config.onRun(run);
+  }
+}
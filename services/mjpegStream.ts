@@ -0,0 +1,244 @@
+import { AppConfig } from "../types";
+
+// A part bigger than this means the boundary was missed; start over rather than grow forever
+const MAX_BUFFER_BYTES = 4 * 1024 * 1024;
+const HEADER_END = new Uint8Array([13, 10, 13, 10]);
+
+export interface MjpegFrame {
+  index: number;
+  // Only valid until the next frame arrives; draw or copy it inside the listener
+  bitmap: ImageBitmap;
+  jpeg: Blob;
+  width: number;
+  height: number;
+  receivedAt: number;
+}
+
+export type MjpegFrameListener = (frame: MjpegFrame) => void;
+
+export class MjpegError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MjpegError';
+  }
+}
+
+// Camera request with credentials moved from the URL (which fetch refuses) into a Basic Auth header
+export const cameraRequest = (config: AppConfig): { url: string, headers: Record<string, string> } => {
+  const url = new URL(config.cameraUrl);
+  const user = config.cameraUser || decodeURIComponent(url.username);
+  const pwd = config.cameraPwd || decodeURIComponent(url.password);
+  url.username = '';
+  url.password = '';
+  const headers: Record<string, string> = {};
+  if (user && pwd) headers.Authorization = `Basic ${btoa(`${user}:${pwd}`)}`;
+  return { url: url.toString(), headers };
+};
+
+const indexOfBytes = (haystack: Uint8Array, needle: Uint8Array, from: number): number => {
+  for (let i = haystack.indexOf(needle[0], from); i >= 0 && i <= haystack.length - needle.length; i = haystack.indexOf(needle[0], i + 1)) {
+    let match = true;
+    for (let j = 1; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+  return -1;
+};
+
+// Incremental multipart/x-mixed-replace parser. Uses each part's Content-Length when the
+// server sends one, otherwise reads up to the next boundary and trims to the JPEG end marker.
+export class MultipartParser {
+  // Unread data is buffer[offset, length); consumed bytes are reclaimed only when the buffer would have to grow
+  private buffer = new Uint8Array(64 * 1024);
+  private offset = 0;
+  private length = 0;
+  private boundary: Uint8Array;
+
+  constructor(boundary: string, private onPart: (body: Uint8Array) => void) {
+    // Some servers put the leading dashes in the declared boundary, some don't; match on the token itself
+    this.boundary = new TextEncoder().encode(boundary.replace(/^--/, ''));
+  }
+
+  push(chunk: Uint8Array) {
+    this.append(chunk);
+
+    while (this.nextPart()) { /* keep going while whole parts are buffered */ }
+
+    if (this.length - this.offset > MAX_BUFFER_BYTES) {
+      this.offset = 0;
+      this.length = 0;
+    }
+  }
+
+  private append(chunk: Uint8Array) {
+    if (this.length + chunk.length > this.buffer.length && this.offset > 0) {
+      this.buffer.copyWithin(0, this.offset, this.length);
+      this.length -= this.offset;
+      this.offset = 0;
+    }
+    if (this.length + chunk.length > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + chunk.length));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(chunk, this.length);
+    this.length += chunk.length;
+  }
+
+  private nextPart(): boolean {
+    // A view, not a copy: parts are sliced out before the buffer is reused
+    const data = this.buffer.subarray(this.offset, this.length);
+    const start = indexOfBytes(data, this.boundary, 0);
+    if (start < 0) return false;
+    const headerEnd = indexOfBytes(data, HEADER_END, start);
+    if (headerEnd < 0) return false;
+
+    const headers = new TextDecoder().decode(data.subarray(start + this.boundary.length, headerEnd));
+    const length = /content-length:\s*(\d+)/i.exec(headers);
+    const bodyStart = headerEnd + HEADER_END.length;
+    let body: Uint8Array;
+    let consumed: number;
+
+    if (length) {
+      consumed = bodyStart + Number(length[1]);
+      if (data.length < consumed) return false;
+      body = data.slice(bodyStart, consumed);
+    } else {
+      const next = indexOfBytes(data, this.boundary, bodyStart);
+      if (next < 0) return false;
+      consumed = next;
+      body = this.trimToJpegEnd(data.subarray(bodyStart, next));
+    }
+
+    this.offset += consumed;
+    if (body.length > 0) this.onPart(body);
+    return true;
+  }
+
+  // Drops the CRLF and dashes that precede the next boundary
+  private trimToJpegEnd(body: Uint8Array): Uint8Array {
+    for (let i = body.length - 2; i >= 0; i--) {
+      if (body[i] === 0xFF && body[i + 1] === 0xD9) return body.slice(0, i + 2);
+    }
+    return body.slice();
+  }
+}
+
+interface MjpegStreamConfig {
+  onOpen?: () => void;
+  // The stream failed or ended; it is not restarted automatically
+  onError: (error: Error) => void;
+  // A subscriber threw while handling a frame. Reported once per subscriber; the stream keeps running.
+  onListenerError?: (error: Error) => void;
+}
+
+// Pulls an MJPEG stream with fetch and decodes each part to an ImageBitmap.
+// Frames are delivered to subscribers; if decoding falls behind, only the newest frame is kept.
+export class MjpegStream {
+  private listeners = new Set<MjpegFrameListener>();
+  private failedListeners = new WeakSet<MjpegFrameListener>();
+  private controller: AbortController | null = null;
+  private pending: Uint8Array | null = null;
+  private decoding = false;
+  private last: MjpegFrame | null = null;
+  private index = 0;
+
+  constructor(private config: MjpegStreamConfig) {}
+
+  subscribe(listener: MjpegFrameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getLastFrame() {
+    return this.last;
+  }
+
+  start(camera: AppConfig) {
+    this.stop();
+    const controller = new AbortController();
+    this.controller = controller;
+    this.index = 0;
+    this.read(camera, controller.signal).catch((e: any) => {
+      if (controller.signal.aborted) return;
+      this.config.onError(e instanceof Error ? e : new MjpegError(String(e)));
+    });
+  }
+
+  stop() {
+    this.controller?.abort();
+    this.controller = null;
+    this.pending = null;
+    this.last?.bitmap.close();
+    this.last = null;
+  }
+
+  private async read(camera: AppConfig, signal: AbortSignal) {
+    const { url, headers } = cameraRequest(camera);
+    const resp = await fetch(url, { headers, cache: 'no-store', signal });
+    if (!resp.ok) throw new MjpegError(`Camera answered HTTP ${resp.status}`);
+    const type = resp.headers.get('content-type') ?? '';
+    const boundary = /boundary="?([^";]+)"?/i.exec(type)?.[1];
+    if (!type.startsWith('multipart/') || !boundary || !resp.body) {
+      throw new MjpegError(`Not an MJPEG stream (${type || 'no content type'})`);
+    }
+    this.config.onOpen?.();
+
+    const parser = new MultipartParser(boundary, (jpeg) => this.enqueue(jpeg));
+    const reader = resp.body.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value) parser.push(value);
+    }
+    throw new MjpegError('Camera ended the stream');
+  }
+
+  private enqueue(jpeg: Uint8Array) {
+    this.pending = jpeg;
+    if (!this.decoding) this.decodePending();
+  }
+
+  private async decodePending() {
+    this.decoding = true;
+    const controller = this.controller;
+    while (this.pending && controller && this.controller === controller) {
+      const jpeg = new Blob([this.pending], { type: 'image/jpeg' });
+      this.pending = null;
+      let bitmap: ImageBitmap;
+      try {
+        bitmap = await createImageBitmap(jpeg);
+      } catch (e) {
+        // Truncated or corrupt part: skip it, the next one usually decodes
+        continue;
+      }
+      if (this.controller !== controller) {
+        bitmap.close();
+        break;
+      }
+      this.deliver({ index: ++this.index, bitmap, jpeg, width: bitmap.width, height: bitmap.height, receivedAt: Date.now() });
+    }
+    this.decoding = false;
+  }
+
+  private deliver(frame: MjpegFrame) {
+    const previous = this.last;
+    this.last = frame;
+    for (const listener of this.listeners) {
+      try {
+        listener(frame);
+      } catch (e: any) {
+        if (this.failedListeners.has(listener)) continue;
+        this.failedListeners.add(listener);
+        this.config.onListenerError?.(e instanceof Error ? e : new MjpegError(String(e)));
+      }
+    }
+    previous?.bitmap.close();
+  }
+}
@@ -0,0 +1,88 @@
+import { RobotCommand, ServoCommand } from "../types";
+
+// What happens to a command issued while the link is down:
+// - drop:          discarded
+// - collapse-stop: discarded, but a single stop is queued so the robot starts from rest
+// - queue:         kept and replayed in order once the link returns
+export type OutboxPolicy = 'drop' | 'collapse-stop' | 'queue';
+
+export const DEFAULT_OUTBOX_POLICIES: Record<RobotCommand['cmd'], OutboxPolicy> = {
+  move: 'collapse-stop',
+  servo: 'queue',
+  emote: 'queue'
+};
+
+const MAX_ENTRIES = 50;
+// An emote queued minutes ago is no longer what the operator meant
+const MAX_AGE_MS = 120000;
+
+interface OutboxEntry {
+  cmd: RobotCommand;
+  queuedAt: number;
+}
+
+interface OutboxConfig {
+  onChange: (depth: number) => void;
+  policies?: Record<RobotCommand['cmd'], OutboxPolicy>;
+}
+
+export class CommandOutbox {
+  private entries: OutboxEntry[] = [];
+  private policies: Record<RobotCommand['cmd'], OutboxPolicy>;
+
+  constructor(private config: OutboxConfig) {
+    this.policies = config.policies ?? DEFAULT_OUTBOX_POLICIES;
+  }
+
+  // Returns what was done with the command, for logging
+  offer(cmd: RobotCommand): 'queued' | 'collapsed' | 'dropped' {
+    const policy = this.policies[cmd.cmd];
+    if (policy === 'drop') return 'dropped';
+
+    if (policy === 'collapse-stop') {
+      // Keep exactly one stop, at the front so it goes out before anything else
+      if (!this.entries.some(e => e.cmd.cmd === 'move')) {
+        this.entries.unshift({ cmd: { cmd: 'move', throttle: 0, steer: 0 }, queuedAt: Date.now() });
+        this.changed();
+      }
+      return 'collapsed';
+    }
+
+    this.entries.push({ cmd, queuedAt: Date.now() });
+    if (this.entries.length > MAX_ENTRIES) this.entries.shift();
+    this.changed();
+    return 'queued';
+  }
+
+  // Removes and returns the queued commands in order, minus any that went stale
+  drain(): { commands: RobotCommand[], expired: number } {
+    const now = Date.now();
+    const fresh = this.entries.filter(e => now - e.queuedAt <= MAX_AGE_MS);
+    const expired = this.entries.length - fresh.length;
+    this.entries = [];
+    this.changed();
+    return { commands: fresh.map(e => e.cmd), expired };
+  }
+
+  clear() {
+    this.entries = [];
+    this.changed();
+  }
+
+  size() {
+    return this.entries.length;
+  }
+
+  // Servo targets that have a command waiting, so reconnect restore can leave them to the flush
+  pendingServoTargets(): Set<ServoCommand['target']> {
+    const targets = new Set<ServoCommand['target']>();
+    for (const e of this.entries) {
+      if (e.cmd.cmd === 'servo') targets.add(e.cmd.target);
+    }
+    return targets;
+  }
+
+  private changed() {
+    this.config.onChange(this.entries.length);
+  }
+}
@@ -0,0 +1,69 @@
+import { AppConfig, FleetState, RobotProfile } from "../types";
+
+export const PROFILES_STORAGE_KEY = 'rover_cmd_profiles_v1';
+// Single-robot settings from before profiles existed, migrated on first load
+const LEGACY_CONFIG_KEY = 'rover_cmd_config_v2';
+const LEGACY_IFRAME_KEY = 'rover_cmd_iframe_mode';
+
+export const DEFAULT_SPEED_LIMIT = 200;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const createProfile = (name: string, config: AppConfig): RobotProfile => ({
+  ...config,
+  id: newId(),
+  name,
+  useIframe: false,
+  useImgFallback: false,
+  speedLimit: DEFAULT_SPEED_LIMIT
+});
+
+// "Rover" -> "Rover 2", "Rover 2" -> "Rover 3", skipping names already taken
+export const uniqueName = (base: string, profiles: RobotProfile[]) => {
+  const taken = new Set(profiles.map(p => p.name));
+  if (!taken.has(base)) return base;
+  const stem = base.replace(/\s+\d+$/, '');
+  let n = 2;
+  while (taken.has(`${stem} ${n}`)) n++;
+  return `${stem} ${n}`;
+};
+
+export const duplicateProfile = (profile: RobotProfile, profiles: RobotProfile[]): RobotProfile => ({
+  ...profile,
+  id: newId(),
+  name: uniqueName(`${profile.name} copy`, profiles)
+});
+
+const migrateLegacy = (defaults: AppConfig): FleetState => {
+  let config = defaults;
+  try {
+    const saved = localStorage.getItem(LEGACY_CONFIG_KEY);
+    if (saved) config = { ...defaults, ...JSON.parse(saved) };
+  } catch (e) {
+    // Corrupt legacy config: start from defaults
+  }
+  const profile: RobotProfile = {
+    ...createProfile('Rover 1', config),
+    useIframe: localStorage.getItem(LEGACY_IFRAME_KEY) === 'true'
+  };
+  return { profiles: [profile], activeId: profile.id };
+};
+
+// Reads the saved fleet, falling back to the old single config. Always returns at least one profile.
+export const loadFleet = (defaults: AppConfig): FleetState => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (saved) {
+      const fleet: FleetState = JSON.parse(saved);
+      if (Array.isArray(fleet.profiles) && fleet.profiles.length > 0) {
+        // Fill in fields added after the profile was saved
+        const profiles = fleet.profiles.map(p => ({ ...createProfile(p.name, defaults), ...p }));
+        const activeId = profiles.some(p => p.id === fleet.activeId) ? fleet.activeId : profiles[0].id;
+        return { profiles, activeId };
+      }
+    }
+  } catch (e) {
+    // Fall through to migration
+  }
+  return migrateLegacy(defaults);
+};
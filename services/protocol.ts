@@ -0,0 +1,244 @@
+import { AckMessage, CommandAck, Emote, HelloCommand, HelloMessage, InboundMessage, MotorCommand, MotorEncoding, OutboundCommand, ServoCommand, TelemetryMessage } from "../types";
+
+// v1: bare JSON commands with no sequence numbers or acks (original firmware)
+// v2: frames carry {"v":2}; commands that should be acked also carry a "seq",
+//     which the robot echoes back in {"type":"ack","seq":n,"ok":true}
+export const LEGACY_VERSION = 1;
+export const PROTOCOL_VERSION = 2;
+const SUPPORTED_VERSIONS = [LEGACY_VERSION, PROTOCOL_VERSION];
+
+// Firmware that doesn't answer the hello within this window is treated as v1
+const HELLO_TIMEOUT_MS = 3000;
+// A sequenced command with no ack after this long is reported as lost
+const ACK_TIMEOUT_MS = 2000;
+const CHECK_INTERVAL_MS = 250;
+const MAX_SEQ = 0xFFFF;
+
+const SERVO_TARGETS: ServoCommand['target'][] = ['skirt', 'top', 'head'];
+const SERVO_STATES: ServoCommand['state'][] = ['open', 'close'];
+const EMOTE_IDS = Object.values(Emote).filter((v): v is number => typeof v === 'number');
+const TELEMETRY_FIELDS = ['battery', 'rssi', 'temperature', 'uptime'] as const;
+
+// Binary frames (v2 with the 'binary-motor' feature), all little-endian:
+//   motor: 'M' | seq u16 (0 = unsequenced) | throttle i16 | steer i16   -> 7 bytes
+//   ack:   'A' | status u8 (0 = applied, else error code) | seq u16     -> 4 bytes
+export const BINARY_MOTOR_FEATURE = 'binary-motor';
+const MOTOR_FRAME_TAG = 0x4D;
+const MOTOR_FRAME_BYTES = 7;
+const ACK_FRAME_TAG = 0x41;
+const ACK_FRAME_BYTES = 4;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const isInt = (value: unknown, min: number, max: number): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+// Returns why a command would be rejected, or null if it's well-formed
+export const validateCommand = (cmd: OutboundCommand): string | null => {
+  switch (cmd.cmd) {
+    case 'move':
+      if (!isInt(cmd.throttle, -255, 255)) return `throttle ${cmd.throttle} is outside -255..255`;
+      if (!isInt(cmd.steer, -255, 255)) return `steer ${cmd.steer} is outside -255..255`;
+      return null;
+    case 'emote':
+      return EMOTE_IDS.includes(cmd.id) ? null : `unknown emote id ${cmd.id}`;
+    case 'servo':
+      if (!SERVO_TARGETS.includes(cmd.target)) return `unknown servo target "${cmd.target}"`;
+      if (!SERVO_STATES.includes(cmd.state)) return `unknown servo state "${cmd.state}"`;
+      return null;
+    case 'ping':
+      return isInt(cmd.seq, 0, MAX_SEQ) ? null : `ping seq ${cmd.seq} is out of range`;
+    case 'hello':
+      return cmd.versions.length > 0 && cmd.versions.every(v => isInt(v, 1, 255)) ? null : 'hello needs at least one version';
+    default:
+      return `unknown command "${(cmd as { cmd: unknown }).cmd}"`;
+  }
+};
+
+export const encodeMotorFrame = (cmd: MotorCommand, seq: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(MOTOR_FRAME_BYTES);
+  const view = new DataView(buffer);
+  view.setUint8(0, MOTOR_FRAME_TAG);
+  view.setUint16(1, seq, true);
+  view.setInt16(3, cmd.throttle, true);
+  view.setInt16(5, cmd.steer, true);
+  return buffer;
+};
+
+const decodeBinaryFrame = (data: ArrayBuffer): InboundMessage | null => {
+  const view = new DataView(data);
+  if (data.byteLength !== ACK_FRAME_BYTES || view.getUint8(0) !== ACK_FRAME_TAG) return null;
+  const status = view.getUint8(1);
+  const seq = view.getUint16(2, true);
+  if (seq === 0) return null;
+  return { type: 'ack', seq, ok: status === 0, error: status === 0 ? undefined : `error code ${status}` };
+};
+
+// Size of a frame on the wire
+export const frameBytes = (data: unknown): number => {
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (data instanceof Blob) return data.size;
+  return typeof data === 'string' ? new TextEncoder().encode(data).length : 0;
+};
+
+// Parse a raw frame from the robot. Returns null for anything that isn't a known, well-formed message.
+export const decodeFrame = (data: unknown): InboundMessage | null => {
+  if (data instanceof ArrayBuffer) return decodeBinaryFrame(data);
+  if (typeof data !== 'string') return null;
+  let msg: any;
+  try {
+    msg = JSON.parse(data);
+  } catch (e) {
+    return null;
+  }
+  if (!msg || typeof msg !== 'object') return null;
+
+  switch (msg.type) {
+    case 'pong':
+      if (!isInt(msg.seq, 0, MAX_SEQ)) return null;
+      return { type: 'pong', seq: msg.seq, t: typeof msg.t === 'number' && Number.isFinite(msg.t) ? msg.t : undefined };
+    case 'ack':
+      if (!isInt(msg.seq, 1, MAX_SEQ) || typeof msg.ok !== 'boolean') return null;
+      return { type: 'ack', seq: msg.seq, ok: msg.ok, error: typeof msg.error === 'string' ? msg.error : undefined };
+    case 'hello':
+      if (!isInt(msg.version, 1, 255)) return null;
+      return {
+        type: 'hello',
+        version: msg.version,
+        firmware: typeof msg.firmware === 'string' ? msg.firmware : undefined,
+        features: Array.isArray(msg.features) ? msg.features.filter((f: unknown): f is string => typeof f === 'string') : undefined
+      };
+    case 'telemetry': {
+      // Keep only numeric fields; anything else is treated as missing
+      const telemetry: TelemetryMessage = { type: 'telemetry' };
+      for (const field of TELEMETRY_FIELDS) {
+        if (typeof msg[field] === 'number' && Number.isFinite(msg[field])) telemetry[field] = msg[field];
+      }
+      return telemetry;
+    }
+    default:
+      return null;
+  }
+};
+
+interface ProtocolSessionConfig {
+  onNegotiated: (version: number, detail: string) => void;
+  onAck: (seq: number, ack: CommandAck, error?: string) => void;
+}
+
+// Per-connection protocol state: version negotiation, sequence numbers and ack tracking.
+// The sequence counter keeps running across reconnects so old log entries are never confused with new ones.
+export class ProtocolSession {
+  private version = LEGACY_VERSION;
+  private negotiating = false;
+  private robotFeatures: string[] = [];
+  private binaryMotorPreferred = false;
+  private helloSentAt = 0;
+  private seq = 0;
+  private pending = new Map<number, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private config: ProtocolSessionConfig) {}
+
+  // Resets to v1 for the new link and returns the hello frame to send.
+  // Until the robot answers, commands go out as v1 so old firmware keeps working.
+  start(): string {
+    this.stop();
+    this.version = LEGACY_VERSION;
+    this.robotFeatures = [];
+    this.negotiating = true;
+    this.helloSentAt = Date.now();
+    this.timer = setInterval(() => this.tick(), CHECK_INTERVAL_MS);
+    return JSON.stringify(this.hello());
+  }
+
+  // Anything still waiting for an ack will never get one
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.negotiating = false;
+    for (const seq of this.pending.keys()) this.config.onAck(seq, 'lost');
+    this.pending.clear();
+  }
+
+  getVersion() {
+    return this.version;
+  }
+
+  // Binary motor frames are only used once the robot has said it understands them
+  setBinaryMotorPreferred(preferred: boolean) {
+    this.binaryMotorPreferred = preferred;
+  }
+
+  getMotorEncoding(): MotorEncoding {
+    const supported = this.version >= PROTOCOL_VERSION && this.robotFeatures.includes(BINARY_MOTOR_FEATURE);
+    return supported && this.binaryMotorPreferred ? 'binary' : 'json';
+  }
+
+  // Validates and serializes a command. Sequenced commands get a seq (v2 only) and are tracked until acked.
+  encode(cmd: OutboundCommand, sequenced = true): { frame: string | ArrayBuffer, seq: number | null } {
+    const error = validateCommand(cmd);
+    if (error) throw new ProtocolError(error);
+
+    if (this.version === LEGACY_VERSION || cmd.cmd === 'hello') {
+      return { frame: JSON.stringify(cmd), seq: null };
+    }
+    // Pings are answered by pongs, so they never take a command seq
+    const seq = sequenced && cmd.cmd !== 'ping' ? this.nextSeq() : null;
+
+    if (cmd.cmd === 'move' && this.getMotorEncoding() === 'binary') {
+      return { frame: encodeMotorFrame(cmd, seq ?? 0), seq };
+    }
+    const frame = seq === null ? { v: this.version, ...cmd } : { v: this.version, seq, ...cmd };
+    return { frame: JSON.stringify(frame), seq };
+  }
+
+  handleHello(msg: HelloMessage) {
+    this.negotiating = false;
+    if (SUPPORTED_VERSIONS.includes(msg.version)) {
+      this.version = msg.version;
+      this.robotFeatures = msg.features ?? [];
+      const features = this.robotFeatures.length > 0 ? ` (${this.robotFeatures.join(', ')})` : '';
+      this.config.onNegotiated(this.version, `Robot firmware ${msg.firmware ?? 'unknown'} speaks v${msg.version}${features}`);
+    } else {
+      this.version = LEGACY_VERSION;
+      this.config.onNegotiated(this.version, `Robot offered unsupported v${msg.version}; staying on v${LEGACY_VERSION}`);
+    }
+  }
+
+  handleAck(msg: AckMessage) {
+    // Late acks for commands already reported lost still correct the record
+    this.pending.delete(msg.seq);
+    this.config.onAck(msg.seq, msg.ok ? 'applied' : 'rejected', msg.error);
+  }
+
+  private hello(): HelloCommand {
+    return { cmd: 'hello', versions: SUPPORTED_VERSIONS, features: [BINARY_MOTOR_FEATURE] };
+  }
+
+  private nextSeq() {
+    this.seq = (this.seq % MAX_SEQ) + 1;
+    this.pending.set(this.seq, Date.now());
+    return this.seq;
+  }
+
+  private tick() {
+    const now = Date.now();
+    if (this.negotiating && now - this.helloSentAt > HELLO_TIMEOUT_MS) {
+      this.negotiating = false;
+      this.config.onNegotiated(LEGACY_VERSION, `No hello reply; assuming v${LEGACY_VERSION} firmware (commands are not acknowledged)`);
+    }
+    for (const [seq, sentAt] of this.pending) {
+      if (now - sentAt > ACK_TIMEOUT_MS) {
+        this.pending.delete(seq);
+        this.config.onAck(seq, 'lost');
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { RampRates } from "../types";
+
+// Fixed control-loop rate for ramped keyboard driving
+export const RAMP_TICK_MS = 20;
+// Quantize ramp output so a ramp doesn't emit a command on every single tick
+const OUTPUT_STEP = 5;
+// Share of the speed limit given to steering when driving and turning at once
+const ARC_TURN_RATIO = 0.4;
+
+export const DEFAULT_RAMP_RATES: RampRates = {
+  accel: 400,
+  decel: 600,
+  brake: 900
+};
+
+// Turn digital key directions (-1, 0, 1) into throttle/steer targets.
+// The firmware mixes left = throttle + steer and right = throttle - steer, so the two
+// axes share the speed budget instead of stacking past it.
+export const mixKeyboard = (forward: number, turn: number, speed: number) => {
+  if (forward !== 0 && turn !== 0) {
+    return {
+      throttle: forward * speed * (1 - ARC_TURN_RATIO),
+      steer: turn * speed * ARC_TURN_RATIO
+    };
+  }
+  return { throttle: forward * speed, steer: turn * speed };
+};
+
+// Move one axis towards its target by at most one tick's worth of the applicable rate
+export const stepAxis = (current: number, target: number, dtSec: number, rates: RampRates): number => {
+  if (current === target) return current;
+
+  let rate: number;
+  if (target === 0 || (current !== 0 && Math.sign(target) !== Math.sign(current))) {
+    rate = rates.brake;
+  } else if (Math.abs(target) > Math.abs(current)) {
+    rate = rates.accel;
+  } else {
+    rate = rates.decel;
+  }
+
+  const maxStep = rate * dtSec;
+  const delta = Math.max(-maxStep, Math.min(maxStep, target - current));
+  return current + delta;
+};
+
+export const quantize = (value: number) => Math.round(value / OUTPUT_STEP) * OUTPUT_STEP;
@@ -0,0 +1,54 @@
+// Backoff schedule for re-establishing the robot link after an unexpected close.
+// ESP32 brownouts typically recover in 2-5s, so the first few attempts are quick.
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 15000;
+const MAX_ATTEMPTS = 10;
+const JITTER_RATIO = 0.3;
+
+interface ReconnectConfig {
+  connect: () => void;
+  onAttempt: (attempt: number, maxAttempts: number, delayMs: number) => void;
+  onGiveUp: (attempts: number) => void;
+}
+
+export class ReconnectManager {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+
+  constructor(private config: ReconnectConfig) {}
+
+  // Schedules the next attempt. Returns false once the attempt budget is spent.
+  schedule(): boolean {
+    if (this.timer) return true;
+    if (this.attempt >= MAX_ATTEMPTS) {
+      this.config.onGiveUp(this.attempt);
+      this.attempt = 0;
+      return false;
+    }
+
+    this.attempt++;
+    const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (this.attempt - 1));
+    // Spread retries so several clients don't hammer the robot in lockstep
+    const jitter = exp * JITTER_RATIO * (Math.random() * 2 - 1);
+    const delay = Math.round(Math.max(BASE_DELAY_MS, exp + jitter));
+
+    this.config.onAttempt(this.attempt, MAX_ATTEMPTS, delay);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.config.connect();
+    }, delay);
+    return true;
+  }
+
+  // True while a reconnect cycle is in progress (between the first retry and success/give-up)
+  isActive() {
+    return this.attempt > 0;
+  }
+
+  // Called once the link is back up, or when the user disconnects on purpose
+  cancel() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.attempt = 0;
+  }
+}
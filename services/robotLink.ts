@@ -0,0 +1,417 @@
+import { AppConfig, CommandAck, ConnectionState, LinkQuality, LinkTraffic, LogEntry, MotorCommand, OutboundCommand, RobotCommand, RobotStatus, ServoCommand, ServoPositions } from "../types";
+import { checkServoInterlock } from "./servoInterlock";
+import { CommandOutbox } from "./outbox";
+import { HeartbeatMonitor } from "./heartbeat";
+import { ReconnectManager } from "./reconnect";
+import { LinkQualityTracker } from "./linkQuality";
+import { applyTelemetry, EMPTY_STATUS } from "./telemetry";
+import { ProtocolSession, decodeFrame, validateCommand, frameBytes } from "./protocol";
+import { Transport, TransportConnection, WebSocketTransport, robotSocketUrl } from "./transport";
+import { SimulatorTransport, isSimulatorAddress } from "./simulator";
+import { SerialTransport } from "./serialTransport";
+import { BleTransport } from "./bleTransport";
+
+export const STOP_COMMAND: MotorCommand = { cmd: 'move', throttle: 0, steer: 0 };
+
+// Drive frames can arrive at 50Hz in either encoding; the log only shows one per interval, stops always
+const MOVE_LOG_INTERVAL_MS = 250;
+
+const ALL_CLOSED: ServoPositions = { head: false, top: false, skirt: false };
+
+interface RobotLinkConfig {
+  // Read on every connect so profile edits apply to the next link
+  getConfig: () => AppConfig;
+  onState: (state: ConnectionState) => void;
+  onLog: (source: LogEntry['source'], message: string, type: LogEntry['type'], seq?: number | null) => void;
+  onAck: (seq: number, ack: CommandAck) => void;
+  onTelemetry: (status: RobotStatus) => void;
+  onQuality: (quality: LinkQuality | null) => void;
+  onWatchdog: (reason: string | null) => void;
+  onServoPositions: (positions: ServoPositions) => void;
+  onOutboxDepth: (depth: number) => void;
+  // Taps for session recording: commands accepted for sending (or queuing) and raw inbound frames
+  onCommand?: (cmd: RobotCommand) => void;
+  onInbound?: (data: unknown) => void;
+}
+
+// Settings that need a fresh transport when they change
+const transportKey = (config: AppConfig): string => {
+  switch (config.transport) {
+    case 'serial': return `serial@${config.serialBaud}`;
+    case 'ble': return 'ble';
+    default: return `websocket:${robotSocketUrl(config).url}`;
+  }
+};
+
+const createTransport = (config: AppConfig): Transport => {
+  switch (config.transport) {
+    case 'serial': return new SerialTransport(config.serialBaud);
+    case 'ble': return new BleTransport();
+    default: {
+      const { url } = robotSocketUrl(config);
+      return isSimulatorAddress(url) ? new SimulatorTransport(url) : new WebSocketTransport(url);
+    }
+  }
+};
+
+// One robot's control link: transport, protocol, heartbeat watchdog, reconnects,
+// offline outbox and the last commanded servo positions.
+export class RobotLink {
+  private transport: Transport | null = null;
+  private transportKey = '';
+  private conn: TransportConnection | null = null;
+  private binaryMotorPreferred = false;
+  private state = ConnectionState.DISCONNECTED;
+  private protocol: ProtocolSession;
+  private reconnect: ReconnectManager;
+  private heartbeat: HeartbeatMonitor | null = null;
+  private outbox: CommandOutbox;
+  private quality = new LinkQualityTracker();
+  private traffic = { txBytes: 0, rxBytes: 0, motorFrames: 0, motorBytes: 0 };
+  private lastCmd = '';
+  private lastMoveLog = 0;
+  private lastMotion: MotorCommand | null = null;
+  // Reason the dead-man watchdog tripped; motion is locked out until acknowledged
+  private watchdogTrip: string | null = null;
+  // Last commanded servo positions, replayed after an automatic reconnect
+  private servoStates: Partial<Record<ServoCommand['target'], ServoCommand['state']>> = {};
+  private servoPositions: ServoPositions = ALL_CLOSED;
+  private status: RobotStatus | null = null;
+
+  constructor(private config: RobotLinkConfig) {
+    this.protocol = new ProtocolSession({
+      onNegotiated: (version, detail) => {
+        this.config.onLog('SYSTEM', `Protocol v${version}: ${detail}`, version > 1 ? 'success' : 'warning');
+      },
+      onAck: (seq, ack, error) => {
+        this.config.onAck(seq, ack);
+        if (ack === 'rejected') this.config.onLog('ROBOT', `Command #${seq} rejected: ${error ?? 'no reason given'}`, 'error');
+      }
+    });
+    this.reconnect = new ReconnectManager({
+      connect: () => this.connect(),
+      onAttempt: (attempt, max, delayMs) => {
+        this.config.onLog('SYSTEM', `Reconnect attempt ${attempt}/${max} in ${(delayMs / 1000).toFixed(1)}s...`, 'warning');
+      },
+      onGiveUp: (attempts) => {
+        this.config.onLog('SYSTEM', `Reconnect failed after ${attempts} attempts. Press LINK to retry.`, 'error');
+      }
+    });
+    this.outbox = new CommandOutbox({ onChange: config.onOutboxDepth });
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  isOpen() {
+    return !!this.conn?.isOpen();
+  }
+
+  // Last drive command that actually went out; a stop while offline
+  getMotion() {
+    return this.lastMotion;
+  }
+
+  isMoving() {
+    return !!this.lastMotion && (this.lastMotion.throttle !== 0 || this.lastMotion.steer !== 0);
+  }
+
+  getWatchdogTrip() {
+    return this.watchdogTrip;
+  }
+
+  getServoPositions() {
+    return this.servoPositions;
+  }
+
+  getTraffic(): LinkTraffic {
+    return { ...this.traffic, motorEncoding: this.protocol.getMotorEncoding() };
+  }
+
+  setBinaryMotorPreferred(preferred: boolean) {
+    this.binaryMotorPreferred = preferred;
+    this.applyMotorEncoding();
+  }
+
+  connect() {
+    if (this.isOpen()) return;
+
+    const config = this.config.getConfig();
+    const isRetry = this.reconnect.isActive();
+
+    try {
+      const transport = this.currentTransport(config);
+      if (!isRetry) {
+        if (config.transport === 'websocket' && robotSocketUrl(config).corrected) {
+          this.config.onLog('SYSTEM', 'Auto-correcting Tunnel URL to WSS...', 'info');
+        }
+        this.config.onLog('SYSTEM', `Connecting to ${transport.describe()}...`, 'info');
+        this.setState(ConnectionState.CONNECTING);
+      }
+      let wasOpen = false;
+
+      const conn = transport.open({
+        onOpen: () => {
+          this.config.onLog('SYSTEM', `Connected via ${transport.describe()}`, 'success');
+          this.setState(ConnectionState.CONNECTED);
+          wasOpen = true;
+
+          this.traffic = { txBytes: 0, rxBytes: 0, motorFrames: 0, motorBytes: 0 };
+          this.quality.reset();
+          this.config.onQuality(null);
+          // Old firmware ignores the hello and we stay on v1
+          const hello = this.protocol.start();
+          conn.send(hello);
+          this.traffic.txBytes += frameBytes(hello);
+
+          // Anything sent before the drop may not have arrived; start dedup fresh
+          this.lastCmd = '';
+          if (this.reconnect.isActive()) this.resendServoStates(conn);
+          this.reconnect.cancel();
+          this.flush(conn);
+
+          const heartbeat = new HeartbeatMonitor({
+            send: (cmd) => {
+              if (!conn.isOpen()) return false;
+              this.transmit(conn, cmd, false);
+              return true;
+            },
+            getMotion: () => this.lastMotion,
+            onTrip: (reason) => this.tripWatchdog(reason),
+            onRtt: (rttMs) => {
+              this.quality.addRtt(rttMs);
+              this.config.onQuality(this.quality.snapshot());
+            },
+            onLoss: () => {
+              this.quality.addLoss();
+              this.config.onQuality(this.quality.snapshot());
+            },
+            onNoResponse: () => this.config.onLog('SYSTEM', 'Robot is not answering heartbeat pings. Watchdog inactive.', 'warning')
+          });
+          heartbeat.start();
+          this.heartbeat = heartbeat;
+        },
+
+        onFrame: (data) => this.handleFrame(data),
+
+        onError: (message) => {
+          this.config.onLog('SYSTEM', message, 'error');
+          if (!isRetry) this.setState(ConnectionState.ERROR);
+        },
+
+        onClose: (detail) => {
+          this.config.onLog('SYSTEM', `Closed (${detail})`, 'warning');
+          this.heartbeat?.stop();
+          this.heartbeat = null;
+          this.protocol.stop();
+          this.config.onQuality(null);
+
+          if (this.isMoving()) this.tripWatchdog('Link closed while moving');
+
+          // conn is cleared first when the user disconnects on purpose
+          const unexpected = this.conn === conn;
+          this.conn = null;
+          if (unexpected && (wasOpen || isRetry) && this.reconnect.schedule()) {
+            this.setState(ConnectionState.RECONNECTING);
+          } else {
+            this.setState(ConnectionState.DISCONNECTED);
+          }
+        }
+      });
+
+      this.conn = conn;
+    } catch (e: any) {
+      let msg = `Failed: ${e.message || e}`;
+      if (e.name === 'SecurityError') msg = "SECURITY ERROR: Mixed Content Blocked.";
+      this.config.onLog('SYSTEM', msg, 'error');
+      this.setState(ConnectionState.ERROR);
+      this.reconnect.cancel();
+    }
+  }
+
+  disconnect() {
+    this.reconnect.cancel();
+    this.heartbeat?.stop();
+    this.heartbeat = null;
+    this.protocol.stop();
+    if (this.conn) {
+      const conn = this.conn;
+      this.conn = null;
+      conn.close();
+      this.config.onLog('SYSTEM', 'Disconnected by user', 'info');
+    }
+    this.setState(ConnectionState.DISCONNECTED);
+  }
+
+  send(cmd: RobotCommand) {
+    const invalid = validateCommand(cmd);
+    if (invalid) {
+      this.config.onLog('SYSTEM', `Command not sent: ${invalid}`, 'error');
+      return;
+    }
+
+    if (cmd.cmd === 'move') {
+      // Only a full stop gets through while the watchdog is tripped
+      if (this.watchdogTrip && (cmd.throttle !== 0 || cmd.steer !== 0)) return;
+    } else if (cmd.cmd === 'servo') {
+      const refusal = checkServoInterlock(this.servoPositions, cmd.target, cmd.state === 'open');
+      if (refusal) {
+        this.config.onLog('SYSTEM', `Servo interlock: ${refusal}`, 'warning');
+        return;
+      }
+      this.servoStates[cmd.target] = cmd.state;
+      this.servoPositions = { ...this.servoPositions, [cmd.target]: cmd.state === 'open' };
+      this.config.onServoPositions(this.servoPositions);
+    }
+
+    const cmdStr = JSON.stringify(cmd);
+
+    // Don't deduplicate Emote commands, always send them
+    if (cmd.cmd !== 'emote' && cmdStr === this.lastCmd) return;
+    this.config.onCommand?.(cmd);
+
+    if (this.conn && this.isOpen()) {
+      const seq = this.transmit(this.conn, cmd);
+      if (cmd.cmd !== 'emote') this.lastCmd = cmdStr;
+      // The keepalive repeats this, so it only ever tracks motion the robot actually received
+      if (cmd.cmd === 'move') this.lastMotion = cmd;
+
+      const now = Date.now();
+      const move = cmd.cmd === 'move' && !(cmd.throttle === 0 && cmd.steer === 0);
+      if (!move || now - this.lastMoveLog >= MOVE_LOG_INTERVAL_MS) {
+        if (move) this.lastMoveLog = now;
+        const binary = cmd.cmd === 'move' && this.protocol.getMotorEncoding() === 'binary';
+        this.config.onLog('USER', `TX${binary ? ' (Binary)' : ''}: ${cmdStr}`, 'success', seq);
+      }
+    } else {
+      // Only remember what actually went out, so this command is sent again after reconnect
+      const outcome = this.outbox.offer(cmd);
+      // A move that did not go out must not be revived by the keepalive after reconnect
+      if (cmd.cmd === 'move') this.lastMotion = STOP_COMMAND;
+      if (cmd.cmd !== 'move' || outcome !== 'collapsed') {
+        this.config.onLog('USER', `TX (Offline, ${outcome}): ${cmdStr}`, 'warning');
+      }
+    }
+  }
+
+  // Dead-man stop: halt the motors and lock out motion until the operator acknowledges
+  tripWatchdog(reason: string) {
+    if (this.conn && this.isOpen()) this.transmit(this.conn, STOP_COMMAND);
+    this.config.onCommand?.(STOP_COMMAND);
+    this.lastCmd = JSON.stringify(STOP_COMMAND);
+    this.lastMotion = STOP_COMMAND;
+    this.watchdogTrip = reason;
+    this.config.onWatchdog(reason);
+    this.config.onLog('SYSTEM', `WATCHDOG TRIPPED: ${reason}. Motors stopped.`, 'error');
+  }
+
+  resetWatchdog() {
+    if (this.heartbeat && !this.heartbeat.reset()) {
+      this.config.onLog('SYSTEM', 'Watchdog reset refused: link still stale', 'warning');
+      return;
+    }
+    this.watchdogTrip = null;
+    this.config.onWatchdog(null);
+    this.config.onLog('SYSTEM', 'Watchdog reset by operator', 'success');
+  }
+
+  flushOutbox() {
+    if (this.conn && this.isOpen()) this.flush(this.conn);
+  }
+
+  clearOutbox() {
+    const count = this.outbox.size();
+    this.outbox.clear();
+    this.config.onLog('SYSTEM', `Outbox: cleared ${count} queued command(s)`, 'info');
+  }
+
+  // Reuse the transport while its settings are unchanged, so a picked serial port or BLE device sticks
+  private currentTransport(config: AppConfig): Transport {
+    const key = transportKey(config);
+    if (!this.transport || key !== this.transportKey) {
+      this.transport = createTransport(config);
+      this.transportKey = key;
+      this.applyMotorEncoding();
+    }
+    return this.transport;
+  }
+
+  // Binary motor frames only when asked for and the transport can carry them
+  private applyMotorEncoding() {
+    this.protocol.setBinaryMotorPreferred(this.binaryMotorPreferred && (this.transport?.binary ?? true));
+  }
+
+  private setState(state: ConnectionState) {
+    this.state = state;
+    this.config.onState(state);
+  }
+
+  // Encode through the negotiated protocol and put it on the wire. Returns the seq if the robot will ack it.
+  private transmit(conn: TransportConnection, cmd: OutboundCommand, sequenced = true): number | null {
+    const { frame, seq } = this.protocol.encode(cmd, sequenced);
+    conn.send(frame);
+    const bytes = frameBytes(frame);
+    this.traffic.txBytes += bytes;
+    if (cmd.cmd === 'move') {
+      this.traffic.motorFrames++;
+      this.traffic.motorBytes += bytes;
+    }
+    return seq;
+  }
+
+  private handleFrame(data: unknown) {
+    this.traffic.rxBytes += frameBytes(data);
+    this.config.onInbound?.(data);
+    const msg = decodeFrame(data);
+    switch (msg?.type) {
+      case 'pong':
+        this.heartbeat?.handlePong(msg.seq);
+        return;
+      case 'telemetry':
+        this.status = applyTelemetry(msg, this.status ?? EMPTY_STATUS);
+        this.config.onTelemetry(this.status);
+        return;
+      case 'hello':
+        this.protocol.handleHello(msg);
+        return;
+      case 'ack':
+        this.protocol.handleAck(msg);
+        return;
+      default:
+        this.config.onLog('ROBOT', typeof data === 'string' ? `RX: ${data}` : `RX: ${frameBytes(data)} byte binary frame`, 'info');
+    }
+  }
+
+  // Restore servo positions after a brownout. Opening goes top-before-head and
+  // closing head-before-top to respect the head interlock.
+  private resendServoStates(conn: TransportConnection) {
+    const states = this.servoStates;
+    const order: ServoCommand['target'][] = states.top === 'close' ? ['skirt', 'head', 'top'] : ['skirt', 'top', 'head'];
+    // Targets with queued commands are restored by the outbox flush instead
+    const pending = this.outbox.pendingServoTargets();
+    for (const target of order) {
+      const state = states[target];
+      if (!state || pending.has(target)) continue;
+      const cmd: ServoCommand = { cmd: 'servo', target, state };
+      const seq = this.transmit(conn, cmd);
+      this.config.onLog('USER', `TX (Restore): ${JSON.stringify(cmd)}`, 'success', seq);
+    }
+  }
+
+  // Replay queued commands in order
+  private flush(conn: TransportConnection) {
+    const { commands, expired } = this.outbox.drain();
+    if (expired > 0) this.config.onLog('SYSTEM', `Outbox: discarded ${expired} stale command(s)`, 'warning');
+    if (commands.length === 0) return;
+
+    this.config.onLog('SYSTEM', `Outbox: flushing ${commands.length} queued command(s)`, 'info');
+    for (const cmd of commands) {
+      const cmdStr = JSON.stringify(cmd);
+      const seq = this.transmit(conn, cmd);
+      if (cmd.cmd !== 'emote') this.lastCmd = cmdStr;
+      if (cmd.cmd === 'move') this.lastMotion = cmd;
+      this.config.onLog('USER', `TX (Queued): ${cmdStr}`, 'success', seq);
+    }
+  }
+}
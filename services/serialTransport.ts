@@ -0,0 +1,105 @@
+import type { Transport, TransportConnection, TransportHandlers } from "./transport";
+import { LineFramer } from "./transport";
+
+// The slice of the Web Serial API used here (not yet in TypeScript's DOM lib)
+interface SerialPortLike {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  readonly readable: ReadableStream<Uint8Array> | null;
+  readonly writable: WritableStream<Uint8Array> | null;
+}
+
+interface SerialLike {
+  requestPort(): Promise<SerialPortLike>;
+}
+
+export const DEFAULT_SERIAL_BAUD = 115200;
+export const SERIAL_BAUD_RATES = [9600, 57600, 115200, 230400, 460800, 921600];
+
+const getSerial = (): SerialLike | undefined => (navigator as Navigator & { serial?: SerialLike }).serial;
+
+// USB serial to the ESP32 (Chrome/Edge). Frames are newline-delimited JSON, same as the WebSocket text frames.
+export class SerialTransport implements Transport {
+  readonly kind = 'serial';
+  readonly binary = false;
+  private port: SerialPortLike | null = null;
+
+  constructor(private baudRate: number) {}
+
+  describe() {
+    return `USB serial @ ${this.baudRate} baud`;
+  }
+
+  open(handlers: TransportHandlers): TransportConnection {
+    const framer = new LineFramer();
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    let writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+    let port: SerialPortLike | null = null;
+    let open = false;
+    let finished = false;
+
+    const release = async () => {
+      open = false;
+      try { await reader?.cancel(); } catch (e) { /* already errored */ }
+      reader?.releaseLock();
+      try { await writer?.close(); } catch (e) { /* already errored */ }
+      writer?.releaseLock();
+      reader = null;
+      writer = null;
+      try { await port?.close(); } catch (e) { /* already closed */ }
+    };
+
+    const finish = async (detail: string) => {
+      if (finished) return;
+      finished = true;
+      await release();
+      handlers.onClose(detail);
+    };
+
+    const run = async () => {
+      const serial = getSerial();
+      if (!serial) throw new Error('Web Serial is not supported in this browser (use Chrome or Edge)');
+      // The picker needs the LINK click's user gesture, so it only appears the first time
+      if (!this.port) this.port = await serial.requestPort();
+      port = this.port;
+      await port.open({ baudRate: this.baudRate });
+      if (finished) {
+        await port.close();
+        return;
+      }
+      if (!port.readable || !port.writable) throw new Error('Serial port is not readable/writable');
+      reader = port.readable.getReader();
+      writer = port.writable.getWriter();
+      open = true;
+      handlers.onOpen();
+
+      while (reader) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) framer.push(value).forEach(handlers.onFrame);
+      }
+      await finish('Serial port closed');
+    };
+
+    run().catch((e: any) => {
+      if (finished) return;
+      // Cancelling the picker is a choice, not a fault
+      handlers.onError(e?.name === 'NotFoundError' ? 'No serial port selected' : `Serial: ${e?.message || e}`);
+      finish('Serial link failed');
+    });
+
+    return {
+      isOpen: () => open,
+      send: (frame) => {
+        if (!open || !writer) return;
+        writer.write(framer.encode(frame)).catch((e: any) => {
+          handlers.onError(`Serial write failed: ${e?.message || e}`);
+          finish('Serial write failed');
+        });
+      },
+      close: () => {
+        finish('Closed');
+      }
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { ServoCommand, ServoPositions } from "../types";
+
+// The head is mounted under the top cover: it can only extend while the top is open,
+// and the top can't close on an extended head.
+export const checkServoInterlock = (positions: ServoPositions, target: ServoCommand['target'], open: boolean): string | null => {
+  if (target === 'head' && open && !positions.top) return 'Head cannot open while the top is closed';
+  if (target === 'top' && !open && positions.head) return 'Top cannot close while the head is open';
+  return null;
+};
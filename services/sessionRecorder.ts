@@ -0,0 +1,218 @@
+import { LogEntry, RobotCommand, SessionEvent, SessionManifest } from "../types";
+import { MjpegFrame, MjpegStream } from "./mjpegStream";
+import { createZip } from "./zip";
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+// MediaRecorder hands over data this often, so a crash loses at most this much video
+const VIDEO_TIMESLICE_MS = 1000;
+const STATS_INTERVAL_MS = 500;
+
+export const VIDEO_FILE = 'video.webm';
+export const EVENTS_FILE = 'events.ndjson';
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface RecorderStats {
+  recording: boolean;
+  elapsedMs: number;
+  events: number;
+  videoFrames: number;
+  videoBytes: number;
+  // Null while recording is possible; otherwise why there will be no video
+  videoUnavailable: string | null;
+}
+
+export interface SessionRecording {
+  manifest: SessionManifest;
+  events: SessionEvent[];
+  video: Blob | null;
+}
+
+interface SessionRecorderConfig {
+  onStats: (stats: RecorderStats) => void;
+}
+
+const pickVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+// Re-encodes decoded camera frames to WebM. Frames are pushed onto a canvas as they
+// arrive rather than on animation frames, so this keeps going in a background tab.
+class CanvasVideoRecorder {
+  private canvas = document.createElement('canvas');
+  private track: CanvasCaptureMediaStreamTrack | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  frames = 0;
+  bytes = 0;
+  firstFrameAt = 0;
+
+  constructor(readonly mimeType: string) {}
+
+  get size() {
+    return { width: this.canvas.width, height: this.canvas.height };
+  }
+
+  addFrame(frame: MjpegFrame) {
+    if (!this.recorder) {
+      // The first frame fixes the video size; later frames are scaled to fit
+      this.canvas.width = frame.width;
+      this.canvas.height = frame.height;
+      const stream = this.canvas.captureStream(0);
+      this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      this.recorder = new MediaRecorder(stream, { mimeType: this.mimeType });
+      this.recorder.ondataavailable = (e) => {
+        if (e.data.size === 0) return;
+        this.chunks.push(e.data);
+        this.bytes += e.data.size;
+      };
+      this.recorder.start(VIDEO_TIMESLICE_MS);
+      this.firstFrameAt = Date.now();
+    }
+    this.canvas.getContext('2d')?.drawImage(frame.bitmap, 0, 0, this.canvas.width, this.canvas.height);
+    this.track?.requestFrame();
+    this.frames++;
+  }
+
+  // Resolves with the whole video once the recorder has flushed, or null if no frame ever arrived
+  finish(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve(null);
+    return new Promise(resolve => {
+      recorder.onstop = () => resolve(new Blob(this.chunks, { type: this.mimeType }));
+      recorder.stop();
+      this.track?.stop();
+    });
+  }
+}
+
+// Captures commands, inbound frames and log entries for every robot, plus the focused
+// camera feed when it is being decoded. Lives outside the UI so switching panels,
+// focus or layout doesn't interrupt it.
+export class SessionRecorder {
+  private startedAt = 0;
+  private events: SessionEvent[] = [];
+  private robots = new Map<string, string>();
+  private video: CanvasVideoRecorder | null = null;
+  private source: MjpegStream | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private config: SessionRecorderConfig) {}
+
+  isRecording() {
+    return this.startedAt > 0;
+  }
+
+  start() {
+    if (this.isRecording()) return;
+    this.startedAt = Date.now();
+    this.events = [];
+    this.robots.clear();
+    const mimeType = pickVideoMimeType();
+    this.video = mimeType ? new CanvasVideoRecorder(mimeType) : null;
+    this.subscribe();
+    this.statsTimer = setInterval(() => this.reportStats(), STATS_INTERVAL_MS);
+    this.reportStats();
+  }
+
+  async stop(): Promise<SessionRecording | null> {
+    if (!this.isRecording()) return null;
+    const startedAt = this.startedAt;
+    const durationMs = Date.now() - startedAt;
+    this.startedAt = 0;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.statsTimer) clearInterval(this.statsTimer);
+    this.statsTimer = null;
+
+    const video = this.video;
+    this.video = null;
+    const blob = video ? await video.finish() : null;
+
+    const manifest: SessionManifest = {
+      version: 1,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs,
+      robots: [...this.robots].map(([id, name]) => ({ id, name })),
+      eventCount: this.events.length,
+      video: video && blob ? { file: VIDEO_FILE, mimeType: video.mimeType, offsetMs: video.firstFrameAt - startedAt, ...video.size } : null
+    };
+    const events = this.events;
+    this.events = [];
+    this.reportStats();
+    return { manifest, events, video: blob };
+  }
+
+  // The decoded camera stream to record from; it changes on every reconnect or camera switch
+  setVideoSource(stream: MjpegStream | null) {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.source = stream;
+    if (this.isRecording()) this.subscribe();
+  }
+
+  recordCommand(robot: { id: string, name: string }, command: RobotCommand) {
+    if (!this.isRecording()) return;
+    this.robots.set(robot.id, robot.name);
+    this.push({ t: 0, robotId: robot.id, kind: 'command', command });
+  }
+
+  recordFrame(robot: { id: string, name: string }, data: unknown) {
+    if (!this.isRecording()) return;
+    this.robots.set(robot.id, robot.name);
+    if (typeof data === 'string') this.push({ t: 0, robotId: robot.id, kind: 'frame', text: data });
+    else if (data instanceof ArrayBuffer) this.push({ t: 0, robotId: robot.id, kind: 'frame', base64: toBase64(data) });
+  }
+
+  // robotId is null for app-wide messages
+  recordLog(robotId: string | null, source: LogEntry['source'], message: string, level: LogEntry['type']) {
+    if (!this.isRecording()) return;
+    this.push({ t: 0, robotId, kind: 'log', source, message, level });
+  }
+
+  private push(event: SessionEvent) {
+    event.t = Date.now() - this.startedAt;
+    this.events.push(event);
+  }
+
+  private subscribe() {
+    const video = this.video;
+    if (!this.source || !video) return;
+    this.unsubscribe = this.source.subscribe(frame => video.addFrame(frame));
+  }
+
+  private reportStats() {
+    const recording = this.isRecording();
+    this.config.onStats({
+      recording,
+      elapsedMs: recording ? Date.now() - this.startedAt : 0,
+      events: this.events.length,
+      videoFrames: this.video?.frames ?? 0,
+      videoBytes: this.video?.bytes ?? 0,
+      videoUnavailable: !pickVideoMimeType() ? 'This browser cannot record WebM video'
+        : !this.source ? 'Camera feed is not being decoded (canvas mode only)'
+        : null
+    });
+  }
+}
+
+// One ZIP with the manifest, the NDJSON event log and the WebM video
+export const exportSession = (recording: SessionRecording): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const ndjson = recording.events.map(event => JSON.stringify(event)).join('\n') + '\n';
+  return createZip([
+    { name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(recording.manifest, null, 2)) },
+    { name: EVENTS_FILE, data: encoder.encode(ndjson) },
+    ...(recording.video ? [{ name: VIDEO_FILE, data: recording.video }] : [])
+  ], new Date(recording.manifest.startedAt));
+};
+
+export const sessionFileName = (manifest: SessionManifest) =>
+  `rover-session-${manifest.startedAt.slice(0, 19).replace(/[-:]/g, '').replace('T', '-')}.zip`;
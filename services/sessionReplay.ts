@@ -0,0 +1,158 @@
+import { Emote, MotorCommand, RobotCommand, ServoPositions, SessionEvent, SessionManifest } from "../types";
+import { EVENTS_FILE, MANIFEST_FILE, SessionRecording } from "./sessionRecorder";
+import { readZip } from "./zip";
+
+const STOP: MotorCommand = { cmd: 'move', throttle: 0, steer: 0 };
+const ALL_CLOSED: ServoPositions = { head: false, top: false, skirt: false };
+// An emote stays highlighted this long after it was sent
+const EMOTE_HOLD_MS = 1500;
+
+export interface TimelineMarker {
+  t: number;
+  kind: 'emote' | 'servo' | 'error';
+  label: string;
+}
+
+export interface TimedCommand {
+  t: number;
+  command: RobotCommand;
+}
+
+export interface ReplayState {
+  motion: MotorCommand;
+  servos: ServoPositions;
+  emote: number | null;
+}
+
+export const loadSessionBundle = async (file: Blob): Promise<SessionRecording> => {
+  const files = await readZip(file);
+  const manifestFile = files.get(MANIFEST_FILE);
+  const eventsFile = files.get(EVENTS_FILE);
+  if (!manifestFile || !eventsFile) throw new Error('Bundle is missing its manifest or event log');
+
+  const manifest: SessionManifest = JSON.parse(await manifestFile.text());
+  if (manifest.version !== 1) throw new Error(`Unsupported session version ${manifest.version}`);
+  const events: SessionEvent[] = (await eventsFile.text())
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+  const video = manifest.video ? files.get(manifest.video.file) : undefined;
+  return { manifest, events, video: video ? new Blob([video], { type: manifest.video!.mimeType }) : null };
+};
+
+// Index over a recording for scrubbing: the robot's state at any time and the events worth marking
+export class SessionTimeline {
+  readonly durationMs: number;
+  readonly markers: TimelineMarker[] = [];
+  private commands = new Map<string, TimedCommand[]>();
+  private events: SessionEvent[];
+
+  constructor(recording: SessionRecording) {
+    this.durationMs = recording.manifest.durationMs;
+    this.events = recording.events;
+    for (const event of recording.events) {
+      if (event.kind === 'command') {
+        const list = this.commands.get(event.robotId) ?? [];
+        list.push({ t: event.t, command: event.command });
+        this.commands.set(event.robotId, list);
+        if (event.command.cmd === 'emote') {
+          this.markers.push({ t: event.t, kind: 'emote', label: Emote[event.command.id] ?? `Emote ${event.command.id}` });
+        } else if (event.command.cmd === 'servo') {
+          this.markers.push({ t: event.t, kind: 'servo', label: `${event.command.target} ${event.command.state}` });
+        }
+      } else if (event.kind === 'log' && event.level === 'error') {
+        this.markers.push({ t: event.t, kind: 'error', label: event.message });
+      }
+    }
+  }
+
+  robotIds() {
+    return [...this.commands.keys()];
+  }
+
+  // Last commanded motion, servo positions and any recent emote for one robot at time t
+  stateAt(robotId: string, t: number): ReplayState {
+    let motion = STOP;
+    let servos = ALL_CLOSED;
+    let emote: number | null = null;
+    for (const { t: at, command } of this.commands.get(robotId) ?? []) {
+      if (at > t) break;
+      if (command.cmd === 'move') motion = command;
+      else if (command.cmd === 'servo') servos = { ...servos, [command.target]: command.state === 'open' };
+      else emote = t - at < EMOTE_HOLD_MS ? command.id : null;
+    }
+    return { motion, servos, emote };
+  }
+
+  // The last few commands for one robot and log lines at or before t, oldest first
+  recentEvents(robotId: string, t: number, count: number): SessionEvent[] {
+    let lo = 0;
+    let hi = this.events.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.events[mid].t <= t) lo = mid + 1;
+      else hi = mid;
+    }
+    const recent: SessionEvent[] = [];
+    for (let i = lo - 1; i >= 0 && recent.length < count; i--) {
+      const event = this.events[i];
+      if (event.kind === 'log' || (event.kind === 'command' && event.robotId === robotId)) recent.unshift(event);
+    }
+    return recent;
+  }
+
+  segment(robotId: string, from: number, to: number): TimedCommand[] {
+    return (this.commands.get(robotId) ?? []).filter(c => c.t >= from && c.t <= to);
+  }
+}
+
+interface SegmentReplayConfig {
+  // Returns false if the command could not be delivered
+  send: (command: RobotCommand) => boolean;
+  onProgress: (t: number) => void;
+  onDone: (completed: boolean, detail: string) => void;
+}
+
+// Sends a recorded segment to a live robot with its original timing. Always ends with a stop.
+export class SegmentReplay {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private running = false;
+
+  constructor(private config: SegmentReplayConfig) {}
+
+  isRunning() {
+    return this.running;
+  }
+
+  start(commands: TimedCommand[]) {
+    this.abort();
+    if (commands.length === 0) {
+      this.config.onDone(false, 'Segment has no commands');
+      return;
+    }
+    this.running = true;
+    const origin = commands[0].t;
+    commands.forEach(({ t, command }, i) => {
+      this.timers.push(setTimeout(() => {
+        this.config.onProgress(t);
+        if (!this.config.send(command)) {
+          this.finish(false, 'Robot went offline; replay stopped');
+          return;
+        }
+        if (i === commands.length - 1) this.finish(true, 'Segment replayed');
+      }, t - origin));
+    });
+  }
+
+  abort(reason = 'Replay aborted') {
+    if (this.running) this.finish(false, reason);
+  }
+
+  private finish(completed: boolean, detail: string) {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    this.running = false;
+    this.config.send(STOP);
+    this.config.onDone(completed, detail);
+  }
+}
@@ -0,0 +1,381 @@
+import { AppConfig, Emote, ServoCommand, ServoPositions } from "../types";
+import type { Transport, TransportConnection, TransportHandlers } from "./transport";
+import { checkServoInterlock } from "./servoInterlock";
+import { BINARY_MOTOR_FEATURE, PROTOCOL_VERSION } from "./protocol";
+
+// Robot addresses like "sim://rover-1" connect to a built-in simulated rover instead of the network
+export const SIMULATOR_SCHEME = 'sim://';
+export const isSimulatorAddress = (address: string) => address.trim().startsWith(SIMULATOR_SCHEME);
+
+// A simulated rover has no camera unless one is configured, so its top-down view takes the feed's place
+export const hasSimulatorView = (config: AppConfig) => isSimulatorAddress(config.robotIp) && !config.cameraUrl.trim();
+
+export type SimFault = 'disconnect' | 'latency' | 'stall';
+
+export interface SimPose {
+  x: number;        // Metres east of the access point
+  y: number;        // Metres north of the access point
+  heading: number;  // Radians, counter-clockwise from east
+}
+
+export interface SimSnapshot {
+  pose: SimPose;
+  trail: { x: number, y: number }[];
+  throttle: number;
+  steer: number;
+  speed: number;    // m/s
+  servos: ServoPositions;
+  emote: Emote | null;
+  battery: number;
+  temperature: number;
+  rssi: number;
+  linked: boolean;
+  faults: SimFault[];
+  arena: number;    // Half-width of the square arena in metres
+}
+
+const FIRMWARE = 'sim-1.0';
+const TICK_MS = 50;
+const TELEMETRY_INTERVAL_MS = 2000;
+// Same as the recommended ESP32 setting: motors stop if drive frames stop arriving
+const FIRMWARE_WATCHDOG_MS = 500;
+
+// Differential drive geometry
+const MAX_WHEEL_SPEED = 0.6;  // m/s at PWM 255
+const WHEEL_BASE = 0.18;      // m
+const ARENA_HALF_WIDTH = 3;   // m
+const TRAIL_LIMIT = 300;
+const TRAIL_STEP = 0.03;      // m between trail points
+
+const CONNECT_DELAY_MS = 150;
+const BASE_LATENCY_MS = 6;
+const LATENCY_NOISE_MS = 8;
+const SPIKE_LATENCY_MS = 600;
+const FAULT_DURATION_MS: Record<SimFault, number> = {
+  disconnect: 4000,  // Access point "reboots"; connection attempts fail until it's back
+  latency: 6000,
+  stall: 4000        // Firmware hangs: nothing is answered, motors keep their last output
+};
+const EMOTE_SHOW_MS = 2500;
+
+// Robot side of the binary frames described in protocol.ts
+const MOTOR_FRAME_TAG = 0x4D;
+const MOTOR_FRAME_BYTES = 7;
+const ACK_FRAME_TAG = 0x41;
+
+const ALL_CLOSED: ServoPositions = { head: false, top: false, skirt: false };
+const SERVO_TARGETS: ServoCommand['target'][] = ['skirt', 'top', 'head'];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// The control link's end of a simulated connection
+class SimulatedConnection implements TransportConnection {
+  private state: 'connecting' | 'open' | 'closed' = 'connecting';
+
+  constructor(private robot: RoverSimulator, private handlers: TransportHandlers) {}
+
+  isOpen() {
+    return this.state === 'open';
+  }
+
+  send(frame: string | ArrayBuffer) {
+    if (this.state === 'open') this.robot.receive(this, frame);
+  }
+
+  close() {
+    if (this.state === 'closed') return;
+    this.state = 'closed';
+    this.robot.detach(this);
+    setTimeout(() => this.handlers.onClose('Code: 1000'), 0);
+  }
+
+  isClosed() {
+    return this.state === 'closed';
+  }
+
+  // Called from the robot side
+  open() {
+    this.state = 'open';
+    this.handlers.onOpen();
+  }
+
+  deliver(frame: string | ArrayBuffer) {
+    if (this.state === 'open') this.handlers.onFrame(frame);
+  }
+
+  fail() {
+    if (this.state === 'closed') return;
+    this.state = 'closed';
+    this.handlers.onError('Connection Error');
+    this.handlers.onClose('Code: 1006');
+  }
+}
+
+// A rover with no hardware: speaks protocol v2, drives a differential-drive model,
+// tracks servo state and reports made-up but plausible telemetry.
+export class RoverSimulator {
+  private client: SimulatedConnection | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pose: SimPose = { x: 0, y: 0, heading: Math.PI / 2 };
+  private trail: { x: number, y: number }[] = [{ x: 0, y: 0 }];
+  private throttle = 0;
+  private steer = 0;
+  private speed = 0;
+  private lastDriveAt = 0;
+  private servos: ServoPositions = ALL_CLOSED;
+  private emote: Emote | null = null;
+  private emoteAt = 0;
+  private battery = 100;
+  private temperature = 32;
+  private rssi = -55;
+  private bootedAt = Date.now();
+  private lastTick = 0;
+  private lastTelemetry = 0;
+  private faultsUntil: Partial<Record<SimFault, number>> = {};
+  // Frames in each direction keep their order even when latency jumps around
+  private uplinkFreeAt = 0;
+  private downlinkFreeAt = 0;
+
+  connect(handlers: TransportHandlers): TransportConnection {
+    const client = new SimulatedConnection(this, handlers);
+    setTimeout(() => {
+      if (client.isClosed()) return;
+      if (this.isFaulted('disconnect')) {
+        client.fail();
+        return;
+      }
+      // Like the ESP32, only one control client at a time
+      this.client?.fail();
+      this.client = client;
+      this.uplinkFreeAt = 0;
+      this.downlinkFreeAt = 0;
+      client.open();
+      this.start();
+    }, CONNECT_DELAY_MS);
+    return client;
+  }
+
+  detach(client: SimulatedConnection) {
+    if (this.client !== client) return;
+    this.client = null;
+    this.throttle = 0;
+    this.steer = 0;
+  }
+
+  injectFault(fault: SimFault) {
+    this.faultsUntil[fault] = Date.now() + FAULT_DURATION_MS[fault];
+    if (fault === 'disconnect' && this.client) {
+      const client = this.client;
+      this.detach(client);
+      client.fail();
+    }
+  }
+
+  getSnapshot(): SimSnapshot {
+    const now = Date.now();
+    return {
+      pose: { ...this.pose },
+      trail: this.trail,
+      throttle: this.throttle,
+      steer: this.steer,
+      speed: this.speed,
+      servos: this.servos,
+      emote: now - this.emoteAt < EMOTE_SHOW_MS ? this.emote : null,
+      battery: this.battery,
+      temperature: this.temperature,
+      rssi: this.rssi,
+      linked: this.client !== null,
+      faults: (Object.keys(this.faultsUntil) as SimFault[]).filter(f => this.isFaulted(f)),
+      arena: ARENA_HALF_WIDTH
+    };
+  }
+
+  // Frame from the control link, delivered after the simulated uplink delay
+  receive(client: SimulatedConnection, data: string | ArrayBuffer) {
+    const at = Math.max(Date.now() + this.latency(), this.uplinkFreeAt);
+    this.uplinkFreeAt = at;
+    setTimeout(() => {
+      if (this.client !== client || this.isFaulted('stall')) return;
+      if (typeof data === 'string') {
+        this.handleJson(data);
+      } else {
+        this.handleBinary(data);
+      }
+    }, at - Date.now());
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  private isFaulted(fault: SimFault) {
+    return (this.faultsUntil[fault] ?? 0) > Date.now();
+  }
+
+  private latency() {
+    const spike = this.isFaulted('latency') ? SPIKE_LATENCY_MS * (0.5 + Math.random()) : 0;
+    return BASE_LATENCY_MS + Math.random() * LATENCY_NOISE_MS + spike;
+  }
+
+  private reply(data: string | ArrayBuffer) {
+    const client = this.client;
+    if (!client) return;
+    const at = Math.max(Date.now() + this.latency(), this.downlinkFreeAt);
+    this.downlinkFreeAt = at;
+    setTimeout(() => {
+      if (this.client === client) client.deliver(data);
+    }, at - Date.now());
+  }
+
+  private ack(seq: unknown, error: string | null) {
+    if (typeof seq !== 'number') return;
+    this.reply(JSON.stringify(error ? { type: 'ack', seq, ok: false, error } : { type: 'ack', seq, ok: true }));
+  }
+
+  private handleJson(data: string) {
+    let msg: any;
+    try {
+      msg = JSON.parse(data);
+    } catch (e) {
+      return;
+    }
+    switch (msg?.cmd) {
+      case 'hello':
+        this.reply(JSON.stringify({ type: 'hello', version: PROTOCOL_VERSION, firmware: FIRMWARE, features: [BINARY_MOTOR_FEATURE] }));
+        return;
+      case 'ping':
+        this.reply(JSON.stringify({ type: 'pong', seq: msg.seq, t: msg.t }));
+        return;
+      case 'move':
+        this.drive(msg.throttle, msg.steer);
+        this.ack(msg.seq, null);
+        return;
+      case 'servo':
+        this.ack(msg.seq, this.moveServo(msg.target, msg.state));
+        return;
+      case 'emote':
+        this.emote = msg.id;
+        this.emoteAt = Date.now();
+        this.ack(msg.seq, null);
+        return;
+      default:
+        this.ack(msg?.seq, 'unknown command');
+    }
+  }
+
+  private handleBinary(data: ArrayBuffer) {
+    const view = new DataView(data);
+    if (data.byteLength !== MOTOR_FRAME_BYTES || view.getUint8(0) !== MOTOR_FRAME_TAG) return;
+    const seq = view.getUint16(1, true);
+    this.drive(view.getInt16(3, true), view.getInt16(5, true));
+    if (seq === 0) return;
+    const ack = new DataView(new ArrayBuffer(4));
+    ack.setUint8(0, ACK_FRAME_TAG);
+    ack.setUint8(1, 0);  // Applied
+    ack.setUint16(2, seq, true);
+    this.reply(ack.buffer);
+  }
+
+  private drive(throttle: number, steer: number) {
+    this.throttle = clamp(Math.round(throttle) || 0, -255, 255);
+    this.steer = clamp(Math.round(steer) || 0, -255, 255);
+    this.lastDriveAt = Date.now();
+  }
+
+  // Returns the rejection reason, or null if applied
+  private moveServo(target: ServoCommand['target'], state: ServoCommand['state']): string | null {
+    if (!SERVO_TARGETS.includes(target) || (state !== 'open' && state !== 'close')) return 'bad servo command';
+    const open = state === 'open';
+    // The real mechanism would jam, so the firmware refuses
+    const refusal = checkServoInterlock(this.servos, target, open);
+    if (refusal) return refusal;
+    this.servos = { ...this.servos, [target]: open };
+    return null;
+  }
+
+  private tick() {
+    const now = Date.now();
+    const dt = Math.min(now - this.lastTick, 200) / 1000;
+    this.lastTick = now;
+    const stalled = this.isFaulted('stall');
+
+    if (!stalled && now - this.lastDriveAt > FIRMWARE_WATCHDOG_MS) {
+      this.throttle = 0;
+      this.steer = 0;
+    }
+
+    // Positive steer turns right: the left wheel speeds up and the right slows down
+    const left = clamp(this.throttle + this.steer, -255, 255) / 255 * MAX_WHEEL_SPEED;
+    const right = clamp(this.throttle - this.steer, -255, 255) / 255 * MAX_WHEEL_SPEED;
+    this.speed = (left + right) / 2;
+    const turnRate = (right - left) / WHEEL_BASE;
+    const heading = this.pose.heading + turnRate * dt;
+    this.pose = {
+      x: clamp(this.pose.x + Math.cos(heading) * this.speed * dt, -ARENA_HALF_WIDTH, ARENA_HALF_WIDTH),
+      y: clamp(this.pose.y + Math.sin(heading) * this.speed * dt, -ARENA_HALF_WIDTH, ARENA_HALF_WIDTH),
+      heading: Math.atan2(Math.sin(heading), Math.cos(heading))
+    };
+    const last = this.trail[this.trail.length - 1];
+    if (Math.hypot(this.pose.x - last.x, this.pose.y - last.y) >= TRAIL_STEP) {
+      this.trail = [...this.trail.slice(-(TRAIL_LIMIT - 1)), { x: this.pose.x, y: this.pose.y }];
+    }
+
+    // Motor load drains the battery and heats the driver; both settle back when idle
+    const load = (Math.abs(left) + Math.abs(right)) / (2 * MAX_WHEEL_SPEED);
+    this.battery = Math.max(0, this.battery - (0.004 + 0.05 * load) * dt);
+    const ambient = 32 + 18 * load;
+    this.temperature += (ambient - this.temperature) * Math.min(1, dt / 20);
+    // Signal falls off with distance from the access point at the origin
+    const distance = Math.hypot(this.pose.x, this.pose.y);
+    this.rssi = -52 - 7 * distance + (Math.random() - 0.5) * 6;
+
+    if (!this.client) {
+      if (this.speed === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+      return;
+    }
+    if (!stalled && now - this.lastTelemetry >= TELEMETRY_INTERVAL_MS) {
+      this.lastTelemetry = now;
+      this.reply(JSON.stringify({
+        type: 'telemetry',
+        battery: Math.round(this.battery),
+        rssi: Math.round(this.rssi),
+        temperature: Math.round(this.temperature * 10) / 10,
+        uptime: Math.floor((now - this.bootedAt) / 1000)
+      }));
+    }
+  }
+}
+
+// One simulator per address, so the rover keeps its pose and battery across reconnects
+const simulators = new Map<string, RoverSimulator>();
+
+export const getSimulator = (address: string): RoverSimulator => {
+  const key = address.trim().toLowerCase();
+  let sim = simulators.get(key);
+  if (!sim) {
+    sim = new RoverSimulator();
+    simulators.set(key, sim);
+  }
+  return sim;
+};
+
+// Picked by the WebSocket settings when the address is a sim:// name. Carries binary frames like a real socket.
+export class SimulatorTransport implements Transport {
+  readonly kind = 'websocket';
+  readonly binary = true;
+
+  constructor(private address: string) {}
+
+  describe() {
+    return `${this.address} (simulated)`;
+  }
+
+  open(handlers: TransportHandlers): TransportConnection {
+    return getSimulator(this.address).connect(handlers);
+  }
+}
@@ -0,0 +1,36 @@
+import { RobotStatus, TelemetryMessage, TelemetrySample } from "../types";
+
+// ~2 minutes of history at the firmware's 2s telemetry interval
+export const TELEMETRY_HISTORY_LIMIT = 60;
+
+export const EMPTY_STATUS: RobotStatus = {
+  battery: 0,
+  rssi: 0,
+  temperature: 0,
+  uptime: 0
+};
+
+const readNumber = (value: unknown, fallback: number) => {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+};
+
+// Merge a decoded telemetry frame into the last known status
+export const applyTelemetry = (msg: TelemetryMessage, previous: RobotStatus): RobotStatus => {
+  return {
+    battery: Math.max(0, Math.min(100, Math.round(readNumber(msg.battery, previous.battery)))),
+    rssi: Math.round(readNumber(msg.rssi, previous.rssi)),
+    temperature: Math.round(readNumber(msg.temperature, previous.temperature) * 10) / 10,
+    uptime: Math.max(0, Math.floor(readNumber(msg.uptime, previous.uptime)))
+  };
+};
+
+// Append a reading to the chart history, dropping the oldest beyond the limit
+export const appendSample = (history: TelemetrySample[], status: RobotStatus): TelemetrySample[] => {
+  const sample: TelemetrySample = {
+    time: new Date().toLocaleTimeString(),
+    battery: status.battery,
+    rssi: status.rssi,
+    temperature: status.temperature
+  };
+  return [...history.slice(-(TELEMETRY_HISTORY_LIMIT - 1)), sample];
+};
@@ -0,0 +1,84 @@
+import { MotorCommand } from "../types";
+
+// Upper bound for a single timed move requested by the AI
+export const MAX_DURATION_MS = 10000;
+
+const STOP: MotorCommand = { cmd: 'move', throttle: 0, steer: 0 };
+
+export interface MotionResult {
+  status: 'completed' | 'preempted' | 'continuous' | 'refused' | 'offline';
+  requestedMs: number;
+  elapsedMs: number;
+  detail: string;
+}
+
+interface TimedMotionConfig {
+  // Returns false if the command could not be delivered to the robot
+  send: (command: MotorCommand) => boolean;
+}
+
+interface ActiveMotion {
+  timer: ReturnType<typeof setTimeout>;
+  startedAt: number;
+  requestedMs: number;
+  resolve: (result: MotionResult) => void;
+}
+
+export class TimedMotionExecutor {
+  private active: ActiveMotion | null = null;
+
+  constructor(private config: TimedMotionConfig) {}
+
+  // Sends the command and resolves once the motion has actually finished (or was cut short).
+  // A duration of 0 means "move until told otherwise" and resolves immediately.
+  run(command: MotorCommand, durationMs = 0): Promise<MotionResult> {
+    this.preempt('Superseded by a newer command');
+
+    const requestedMs = Math.max(0, durationMs || 0);
+    if (!this.config.send(command)) {
+      return Promise.resolve({ status: 'offline', requestedMs, elapsedMs: 0, detail: 'Robot offline: command not delivered' });
+    }
+
+    const isStop = command.throttle === 0 && command.steer === 0;
+    if (isStop) {
+      return Promise.resolve({ status: 'completed', requestedMs, elapsedMs: 0, detail: 'Motors stopped' });
+    }
+    if (requestedMs === 0) {
+      return Promise.resolve({ status: 'continuous', requestedMs, elapsedMs: 0, detail: 'Moving until stopped' });
+    }
+
+    const duration = Math.min(requestedMs, MAX_DURATION_MS);
+    return new Promise(resolve => {
+      const startedAt = Date.now();
+      const timer = setTimeout(() => {
+        this.active = null;
+        this.config.send(STOP);
+        resolve({
+          status: 'completed',
+          requestedMs,
+          elapsedMs: Date.now() - startedAt,
+          detail: duration < requestedMs ? `Duration capped at ${MAX_DURATION_MS}ms, then stopped` : 'Moved for the requested duration, then stopped'
+        });
+      }, duration);
+      this.active = { timer, startedAt, requestedMs, resolve };
+    });
+  }
+
+  // Cut the running timed motion short. The caller is responsible for whatever command replaces it.
+  preempt(reason: string) {
+    const active = this.active;
+    if (!active) return;
+    this.active = null;
+    clearTimeout(active.timer);
+    active.resolve({
+      status: 'preempted',
+      requestedMs: active.requestedMs,
+      elapsedMs: Date.now() - active.startedAt,
+      detail: reason
+    });
+  }
+
+  isBusy() {
+    return this.active !== null;
+  }
+}
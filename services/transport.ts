@@ -0,0 +1,104 @@
+import { AppConfig, TransportKind } from "../types";
+import { isSimulatorAddress } from "./simulator";
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onFrame: (data: string | ArrayBuffer) => void;
+  onError: (message: string) => void;
+  // Fired once per connection, including after close() (like WebSocket's onclose)
+  onClose: (detail: string) => void;
+}
+
+// One open link to the robot
+export interface TransportConnection {
+  isOpen(): boolean;
+  send(frame: string | ArrayBuffer): void;
+  close(): void;
+}
+
+// A way of reaching the robot. Lives as long as the link's settings don't change,
+// so a serial port or BLE device the operator picked once is reused on reconnect.
+export interface Transport {
+  readonly kind: TransportKind;
+  // Stream transports carry newline-delimited JSON only; binary motor frames need a message transport
+  readonly binary: boolean;
+  describe(): string;
+  // May throw synchronously (e.g. a blocked WebSocket URL); later failures go to the handlers
+  open(handlers: TransportHandlers): TransportConnection;
+}
+
+export const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  websocket: 'WIFI',
+  serial: 'USB',
+  ble: 'BLE'
+};
+
+// Work out the control socket URL from whatever the operator typed (IP, tunnel URL, ws:// URL or sim:// name)
+export const robotSocketUrl = (config: AppConfig): { url: string, corrected: boolean } => {
+  let input = config.robotIp.trim();
+  let corrected = false;
+
+  if (isSimulatorAddress(input)) return { url: input, corrected };
+
+  if ((input.includes('ngrok') || input.includes('cloudflare')) && (input.startsWith('https://') || input.startsWith('http://'))) {
+    input = input.replace(/^https?:\/\//, 'wss://');
+    corrected = true;
+  }
+
+  if (input.startsWith('wss://') || input.startsWith('ws://')) {
+    const url = !input.endsWith('/ws') && !input.endsWith('/') ? `${input}/ws` : input;
+    return { url, corrected };
+  }
+  return { url: `ws://${input}:${config.robotPort}/ws`, corrected };
+};
+
+export class WebSocketTransport implements Transport {
+  readonly kind = 'websocket';
+  readonly binary = true;
+
+  constructor(private url: string) {}
+
+  describe() {
+    return this.url;
+  }
+
+  open(handlers: TransportHandlers): TransportConnection {
+    const ws = new WebSocket(this.url);
+    ws.binaryType = 'arraybuffer';
+    ws.onopen = () => handlers.onOpen();
+    ws.onmessage = (e) => handlers.onFrame(e.data);
+    ws.onerror = () => {
+      if (window.location.protocol === 'https:' && !this.url.startsWith('wss://')) {
+        handlers.onError('BLOCKED: HTTPS app cannot connect to insecure WS. Use a Tunnel.');
+      } else {
+        handlers.onError('Connection Error');
+      }
+    };
+    ws.onclose = (e) => handlers.onClose(`Code: ${e.code}`);
+    return {
+      isOpen: () => ws.readyState === WebSocket.OPEN,
+      send: (frame) => ws.send(frame),
+      close: () => ws.close()
+    };
+  }
+}
+
+// Splits a byte stream into newline-terminated text frames for the stream transports
+export class LineFramer {
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+  private buffer = '';
+
+  // Returns the complete lines received so far; a partial line waits for the next chunk
+  push(chunk: Uint8Array): string[] {
+    this.buffer += this.decoder.decode(chunk, { stream: true });
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines.map(l => l.trim()).filter(l => l.length > 0);
+  }
+
+  encode(frame: string | ArrayBuffer): Uint8Array {
+    if (typeof frame !== 'string') throw new Error('Binary frames cannot be sent over a line transport');
+    return this.encoder.encode(`${frame}\n`);
+  }
+}
@@ -0,0 +1,120 @@
+// Minimal uncompressed ZIP writer for session bundles. Video is already compressed and
+// the logs are small, so storing keeps this dependency-free. No ZIP64: entries stay under 4 GB.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time fields
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const { time, date } = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = entry.data instanceof Blob ? new Uint8Array(await entry.data.arrayBuffer()) : entry.data;
+    const name = new TextEncoder().encode(entry.name);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, 0, true);  // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014B50, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, VERSION, true);
+    header.setUint16(8, FLAG_UTF8, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);  // Extra, comment, disk and attribute fields stay zero
+    const record = new Uint8Array(46 + name.length);
+    record.set(new Uint8Array(header.buffer));
+    record.set(name, 46);
+    central.push(record);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+// Reads back archives written by createZip (stored entries only)
+export const readZip = async (blob: Blob): Promise<Map<string, Blob>> => {
+  // The end record is the last 22 bytes unless the archive has a comment, which ours never do
+  const tail = new DataView(await blob.slice(Math.max(0, blob.size - 22)).arrayBuffer());
+  if (tail.byteLength < 22 || tail.getUint32(0, true) !== 0x06054B50) throw new Error('Not a session bundle (no ZIP directory)');
+  const count = tail.getUint16(10, true);
+  const centralSize = tail.getUint32(12, true);
+  const centralOffset = tail.getUint32(16, true);
+
+  const central = new DataView(await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const files = new Map<string, Blob>();
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(pos, true) !== 0x02014B50) throw new Error('Corrupt ZIP directory');
+    const method = central.getUint16(pos + 10, true);
+    const size = central.getUint32(pos + 20, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    const localOffset = central.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(central.buffer, pos + 46, nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (method !== 0) throw new Error(`${name} is compressed; only bundles exported by this app can be opened`);
+
+    const local = new DataView(await blob.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    files.set(name, blob.slice(dataStart, dataStart + size));
+  }
+  return files;
+};
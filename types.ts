@@ -2,6 +2,7 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
@@ -12,12 +13,40 @@ export interface RobotStatus {
   uptime: number;
 }
 
+// Inbound status frame pushed by the ESP32, e.g.
+// {"type":"telemetry","battery":87,"rssi":-61,"temperature":41.5,"uptime":1234}
+// Fields may be omitted; missing values keep their previous reading.
+export interface TelemetryMessage {
+  type: 'telemetry';
+  battery?: number;      // Percent, 0 to 100
+  rssi?: number;         // Wi-Fi signal in dBm
+  temperature?: number;  // Chip temperature in °C
+  uptime?: number;       // Seconds since boot
+}
+
+export interface TelemetrySample {
+  time: string;
+  battery: number;
+  rssi: number;
+  temperature: number;
+}
+
+export interface SceneAnalysis {
+  id: string;
+  timestamp: Date;
+  thumbnail: string;     // Small JPEG data URL of the analyzed frame
+  text: string;
+  failed: boolean;
+}
+
 export interface LogEntry {
   id: string;
   timestamp: Date;
   source: 'SYSTEM' | 'ROBOT' | 'AI' | 'USER';
   message: string;
   type: 'info' | 'warning' | 'error' | 'success';
+  seq?: number;          // Protocol sequence number of the command this entry logged
+  ack?: CommandAck;
 }
 
 export interface MotorCommand {
@@ -26,6 +55,16 @@ export interface MotorCommand {
   steer: number;    // -255 to 255 (Negative = Left, Positive = Right)
 }
 
+// Emote ids understood by the head display firmware
+export enum Emote {
+  HAPPY = 1,
+  SAD = 2,
+  ACTION = 3,
+  LOVE = 4,
+  ALERT = 5,
+  SLEEP = 6
+}
+
 export interface EmoteCommand {
   cmd: 'emote';
   id: number;
@@ -37,12 +76,243 @@ export interface ServoCommand {
   state: 'open' | 'close';
 }
 
+// true = open
+export type ServoPositions = Record<ServoCommand['target'], boolean>;
+
 export type RobotCommand = MotorCommand | EmoteCommand | ServoCommand;
 
+// Link-level keepalive, answered by the robot with {"type":"pong","seq":n,"t":...}
+export interface PingCommand {
+  cmd: 'ping';
+  seq: number;
+  t: number;             // Send time in ms, echoed back unchanged in the pong
+}
+
+// Sent once on connect; the robot answers with the version it picked
+export interface HelloCommand {
+  cmd: 'hello';
+  versions: number[];
+  features?: string[];   // Optional extensions the app can use, e.g. 'binary-motor'
+}
+
+export type OutboundCommand = RobotCommand | PingCommand | HelloCommand;
+
+export interface PongMessage {
+  type: 'pong';
+  seq: number;
+  t?: number;            // Echo of the ping's send time; older firmware leaves it out
+}
+
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  firmware?: string;
+  features?: string[];   // Extensions the robot accepts
+}
+
+// Reply to a sequenced command, e.g. {"type":"ack","seq":17,"ok":false,"error":"range"}
+export interface AckMessage {
+  type: 'ack';
+  seq: number;
+  ok: boolean;
+  error?: string;
+}
+
+export type InboundMessage = PongMessage | TelemetryMessage | HelloMessage | AckMessage;
+
+// Round-trip figures from the heartbeat pings, over a sliding window
+export interface LinkQuality {
+  rttMs: number | null;      // Most recent round trip
+  avgRttMs: number | null;
+  jitterMs: number;          // Smoothed variation between consecutive round trips
+  lossPct: number;           // Pings in the window that never got a pong
+  samples: number;
+}
+
+// Latency above these marks the link as degraded / unusable for driving
+export interface LatencyThresholds {
+  warnMs: number;
+  criticalMs: number;
+}
+
+export type LinkLevel = 'unknown' | 'good' | 'warn' | 'critical';
+
+// How move commands go over the wire: JSON text or the 7-byte binary frame
+export type MotorEncoding = 'json' | 'binary';
+
+// Byte counters for the current robot link
+export interface LinkTraffic {
+  txBytes: number;
+  rxBytes: number;
+  motorFrames: number;
+  motorBytes: number;
+  motorEncoding: MotorEncoding;
+}
+
+// Delivery state of a sequenced command, as shown in the terminal
+export type CommandAck = 'pending' | 'applied' | 'rejected' | 'lost';
+
+// Keyboard drive ramps, in PWM units per second
+export interface RampRates {
+  accel: number;   // Speeding up towards the commanded value
+  decel: number;   // Easing off while a key is still held (e.g. forward+turn to forward)
+  brake: number;   // Returning to zero once keys are released, or reversing
+}
+
+export type GamepadAction =
+  | { type: 'emote'; id: Emote }
+  | { type: 'servo'; target: ServoCommand['target'] };
+
+export interface GamepadMapping {
+  enabled: boolean;
+  throttleAxis: number;
+  steerAxis: number;
+  invertThrottle: boolean;
+  invertSteer: boolean;
+  deadzone: number;      // 0 to 0.5 of stick travel
+  curve: number;         // Response exponent: 1 = linear, higher = finer control near center
+  buttons: Record<number, GamepadAction>;
+}
+
+// Camera frames streamed into the Gemini Live session
+export interface VisionSettings {
+  enabled: boolean;
+  fps: number;
+  maxKbps: number;   // Upload budget for frames
+}
+
+// Why the camera feed isn't showing, as classified by the diagnostics probes
+export type CameraFault = 'mixed-content' | 'auth' | 'unreachable' | 'cors' | 'stalled' | 'unknown';
+
+export interface CameraDiagnosis {
+  fault: CameraFault;
+  detail: string;       // What the probes found
+  suggestion: string;   // What the operator can do about it
+}
+
+// Measured from the displayed frames while the stream is up
+export interface StreamHealth {
+  fps: number;
+  lastFrameAgeMs: number | null;   // null until the first frame arrives
+}
+
+// Scripted command sequence. Each step waits delayMs after the previous one, then sends.
+export interface MacroStep {
+  delayMs: number;
+  command: RobotCommand;
+}
+
+export interface Macro {
+  id: string;
+  name: string;
+  steps: MacroStep[];
+  loop: boolean;
+  hotkey: string | null;     // Single key that starts or aborts it
+  mobileButton: boolean;     // Shown as a button over the mobile controls
+}
+
+export interface MacroPlayback {
+  macroId: string;
+  paused: boolean;
+  step: number;              // Index of the next step to send
+  iteration: number;         // Starts at 1, counts up while looping
+}
+
+// Parameterized mission step. Speeds are 0-255, durations in milliseconds.
+export type MissionStep = { id: string; breakpoint?: boolean } & (
+  | { kind: 'drive'; direction: 'forward' | 'backward'; speed: number; durationMs: number }
+  | { kind: 'pivot'; direction: 'left' | 'right'; speed: number; durationMs: number }
+  | { kind: 'servo'; target: ServoCommand['target']; state: ServoCommand['state'] }
+  | { kind: 'wait'; durationMs: number }
+  | { kind: 'emote'; emote: Emote }
+  | { kind: 'analyze' }
+);
+
+export type MissionStepKind = MissionStep['kind'];
+
+export interface Mission {
+  id: string;
+  name: string;
+  steps: MissionStep[];
+}
+
+export type MissionRunState = 'running' | 'paused' | 'completed' | 'aborted';
+
+export interface MissionRun {
+  missionId: string;
+  state: MissionRunState;
+  step: number;              // Index of the step executing, or the next one while paused
+  executing: boolean;        // A step is in progress; pausing takes effect once it finishes
+  singleStep: boolean;       // Debugger mode: pause before every step
+  detail: string;            // Outcome of the last step, or why the run ended
+}
+
+// One entry in a recorded drive session. t is milliseconds since recording started.
+// Exported one per line as NDJSON.
+export type SessionEvent =
+  | { t: number; robotId: string; kind: 'command'; command: RobotCommand }
+  | { t: number; robotId: string; kind: 'frame'; text?: string; base64?: string }  // Inbound, text or binary
+  | { t: number; robotId: string | null; kind: 'log'; source: LogEntry['source']; message: string; level: LogEntry['type'] };
+
+export interface SessionManifest {
+  version: 1;
+  startedAt: string;     // ISO timestamp
+  durationMs: number;
+  robots: { id: string; name: string }[];
+  eventCount: number;
+  // offsetMs is the session time of the first video frame
+  video: { file: string; mimeType: string; offsetMs: number; width: number; height: number } | null;
+}
+
+// Driver HUD drawn over the video feed
+export type HudElement = 'vector' | 'speedLimit' | 'battery' | 'rssi' | 'servos' | 'latency' | 'crosshair' | 'drivePath';
+export type HudLayout = 'desktop' | 'mobile';
+
+export interface HudSettings {
+  enabled: boolean;
+  layout: HudLayout;
+  elements: Record<HudElement, boolean>;
+}
+
+// How the control link reaches the robot: Wi-Fi WebSocket, USB serial, or BLE (Nordic UART service)
+export type TransportKind = 'websocket' | 'serial' | 'ble';
+
 export interface AppConfig {
+  transport: TransportKind;
   robotIp: string;       // IP of the ESP32 for WebSocket control
   robotPort: number;     // Port for WebSocket (default 81)
+  serialBaud: number;    // Baud rate for the USB serial transport
   cameraUrl: string;     // Full URL for the video stream
   cameraUser?: string;   // Basic Auth Username
   cameraPwd?: string;    // Basic Auth Password
-}
\ No newline at end of file
+}
+
+// One rover in the fleet: its connection details plus the settings that differ per robot
+export interface RobotProfile extends AppConfig {
+  id: string;
+  name: string;
+  useIframe: boolean;    // Camera compat mode
+  useImgFallback: boolean;  // Plain <img> instead of the MJPEG canvas decoder
+  speedLimit: number;    // 0 to 255, applied to manual driving
+}
+
+export interface FleetState {
+  profiles: RobotProfile[];
+  activeId: string;
+}
+
+// What the UI shows for one robot link
+export interface RobotLinkView {
+  state: ConnectionState;
+  logs: LogEntry[];
+  status: RobotStatus | null;      // Null until the first telemetry frame arrives
+  history: TelemetrySample[];
+  quality: LinkQuality | null;
+  traffic: LinkTraffic | null;
+  watchdogTrip: string | null;
+  servos: ServoPositions;
+  outboxDepth: number;
+}
+
+// Which robots manual and voice input goes to
+export type ControlTarget = 'focused' | 'group' | 'all';
\ No newline at end of file